@@ -1,7 +1,12 @@
-import axios from 'axios';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+const API_BASE_URL = 'http://localhost:8000/api';
+
+// Passed as `location.state.reason` when the user is sent back to the login page
+export const SESSION_EXPIRED_REASON = 'session_expired';
 
 const api = axios.create({
-    baseURL: 'http://localhost:8000/api',
+    baseURL: API_BASE_URL,
 });
 
 // Request interceptor
@@ -18,4 +23,97 @@ api.interceptors.request.use(
     }
 );
 
-export default api;
\ No newline at end of file
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+interface PendingRequest {
+    resolve: (token: string) => void;
+    reject: (error: unknown) => void;
+}
+
+// 401s from these endpoints mean bad credentials, not an expired access token
+const AUTH_ENDPOINTS = ['/auth/login/', '/auth/register/', '/auth/refresh/'];
+
+let isRefreshing = false;
+let pendingRequests: PendingRequest[] = [];
+let sessionExpiredHandler: (() => void) | null = null;
+
+// Registered by the AuthProvider so the interceptor can log out and redirect
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+    sessionExpiredHandler = handler;
+};
+
+const flushPendingRequests = (error: unknown, token: string | null) => {
+    pendingRequests.forEach(({ resolve, reject }) => {
+        if (token) {
+            resolve(token);
+        } else {
+            reject(error);
+        }
+    });
+    pendingRequests = [];
+};
+
+const refreshAccessToken = async () => {
+    const refresh = localStorage.getItem('refreshToken');
+    if (!refresh) {
+        throw new Error('No refresh token available');
+    }
+
+    // Plain axios so the refresh call does not go through our own interceptors
+    const response = await axios.post<{ access: string; refresh?: string }>(
+        `${API_BASE_URL}/auth/refresh/`,
+        { refresh }
+    );
+    localStorage.setItem('accessToken', response.data.access);
+    if (response.data.refresh) {
+        localStorage.setItem('refreshToken', response.data.refresh);
+    }
+    return response.data.access;
+};
+
+// Response interceptor: refresh the access token on 401 and replay the request
+api.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        const isAuthEndpoint = AUTH_ENDPOINTS.some((url) => originalRequest?.url?.startsWith(url));
+
+        if (error.response?.status !== 401 || !originalRequest || originalRequest._retry || isAuthEndpoint) {
+            return Promise.reject(error);
+        }
+        originalRequest._retry = true;
+
+        // A refresh is already in flight: wait for it, then replay with the new token
+        if (isRefreshing) {
+            return new Promise<string>((resolve, reject) => {
+                pendingRequests.push({ resolve, reject });
+            }).then((token) => {
+                originalRequest.headers.Authorization = `Bearer ${token}`;
+                return api(originalRequest);
+            });
+        }
+
+        isRefreshing = true;
+        try {
+            const token = await refreshAccessToken();
+            flushPendingRequests(null, token);
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return api(originalRequest);
+        } catch {
+            flushPendingRequests(error, null);
+            sessionExpiredHandler?.();
+            return Promise.reject(error);
+        } finally {
+            isRefreshing = false;
+        }
+    }
+);
+
+// Version of the resource a response carries, sent back as If-Match so saves fail instead of
+// overwriting changes made since it was loaded. Cross-origin, the API must expose the header.
+export const getEtag = (response: AxiosResponse): string | null => {
+    const etag = response.headers.etag;
+    return typeof etag === 'string' ? etag : null;
+};
+
+export default api;
@@ -1,36 +1,77 @@
 // src/App.tsx
-import {Routes, Route} from 'react-router-dom';
+import {Routes, Route, useLocation} from 'react-router-dom';
+import {ToastProvider} from './context/ToastContext';
 import {AuthProvider} from './context/AuthContext';
+import {SettingsProvider} from './context/SettingsContext';
+import {NotificationsProvider} from './context/NotificationsContext';
+import {SyncProvider} from './context/SyncContext';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import DashboardPage from './pages/DashboardPage';
-import {ProtectedRoute} from './components/ProtectedRoute';
+import {HouseRoute, ProtectedRoute} from './components/ProtectedRoute';
+import ErrorBoundary from './components/ErrorBoundary';
 import HouseDetailsPage from "./pages/HouseDetailsPage";
+import ProfilePage from "./pages/ProfilePage";
+import SettingsPage from "./pages/SettingsPage";
+import NotificationsPage from "./pages/NotificationsPage";
 
 function App() {
+    const location = useLocation();
+
     return (
-        <AuthProvider>
-            <Routes>
-                <Route path="/" element={<Login/>}/>
-                <Route path="/login" element={<Login/>}/>
-                <Route path="/register" element={<Register/>}/>
-                <Route
-                    path="/dashboard"
-                    element={
-                        <ProtectedRoute>
-                            <DashboardPage/>
-                        </ProtectedRoute>
-                    }
-                />
-                <Route
-                    path="/house-details/:id"
-                    element={
-                        <ProtectedRoute>
-                            <HouseDetailsPage/>
-                        </ProtectedRoute>
-                    }/>
-            </Routes>
-        </AuthProvider>
+        <ToastProvider>
+            <AuthProvider>
+                <SettingsProvider>
+                    <NotificationsProvider>
+                        <SyncProvider>
+                            <ErrorBoundary resetKey={location.pathname}>
+                                <Routes>
+                                    <Route path="/" element={<Login/>}/>
+                                    <Route path="/login" element={<Login/>}/>
+                                    <Route path="/register" element={<Register/>}/>
+                                    <Route
+                                        path="/dashboard"
+                                        element={
+                                            <ProtectedRoute>
+                                                <DashboardPage/>
+                                            </ProtectedRoute>
+                                        }
+                                    />
+                                    <Route
+                                        path="/house-details/:id"
+                                        element={
+                                            <HouseRoute>
+                                                <HouseDetailsPage/>
+                                            </HouseRoute>
+                                        }/>
+                                    <Route
+                                        path="/profile"
+                                        element={
+                                            <ProtectedRoute>
+                                                <ProfilePage/>
+                                            </ProtectedRoute>
+                                        }/>
+                                    <Route
+                                        path="/settings"
+                                        element={
+                                            <ProtectedRoute>
+                                                <SettingsPage/>
+                                            </ProtectedRoute>
+                                        }/>
+                                    <Route
+                                        path="/notifications"
+                                        element={
+                                            <ProtectedRoute>
+                                                <NotificationsPage/>
+                                            </ProtectedRoute>
+                                        }/>
+                                </Routes>
+                            </ErrorBoundary>
+                        </SyncProvider>
+                    </NotificationsProvider>
+                </SettingsProvider>
+            </AuthProvider>
+        </ToastProvider>
     );
 }
 
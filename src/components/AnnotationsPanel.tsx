@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react';
+import MentionInput from './MentionInput';
+import { useToast } from '../hooks/useToast';
+import { addComment, createAnnotation, setAnnotationResolved } from '../services/annotations';
+import { Annotation, AnnotationComment, ScenePoint } from '../types/annotation';
+import { formatRelativeTime } from '../utils/dates';
+import { findMentions, splitMentions } from '../utils/mentions';
+
+export interface PendingAnnotation {
+    position: ScenePoint;
+    label: string;
+}
+
+interface AnnotationsPanelProps {
+    houseId: number;
+    annotations: Annotation[];
+    loading: boolean;
+    people: string[]; // Emails that can be @mentioned
+    selectedId: number | null;
+    onSelect: (annotation: Annotation) => void;
+    pending: PendingAnnotation | null; // Pin dropped in the 3D view, waiting for its first comment
+    onPendingDone: (annotation: Annotation | null) => void; // The new pin, or null when cancelled
+}
+
+type Filter = 'open' | 'resolved';
+
+const buttonClass = 'px-3 py-1 rounded-md text-white transition duration-150 ease-in-out disabled:opacity-50';
+
+const CommentBody = ({ comment }: { comment: AnnotationComment }) => (
+    <div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span className="font-medium text-gray-700 dark:text-gray-200 truncate">{comment.author_email}</span>
+            <span className="ml-2 flex-shrink-0">{formatRelativeTime(comment.created_at)}</span>
+        </div>
+        <p className="text-gray-800 dark:text-gray-100 whitespace-pre-wrap break-words">
+            {splitMentions(comment.body).map((part, i) => (
+                part.mention ? <span key={i} className="text-indigo-600 dark:text-indigo-400 font-medium">{part.text}</span> : part.text
+            ))}
+        </p>
+    </div>
+);
+
+// Threads of the comment pins, numbered like the pins in the 3D view
+export default function AnnotationsPanel({ houseId, annotations, loading, people, selectedId, onSelect, pending, onPendingDone }: AnnotationsPanelProps) {
+    const [filter, setFilter] = useState<Filter>('open');
+    const [draft, setDraft] = useState('');
+    const [reply, setReply] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const { showError } = useToast();
+    const selected = annotations.find((annotation) => annotation.id === selectedId) ?? null;
+    const openCount = annotations.filter((annotation) => !annotation.resolved).length;
+    const shown = annotations.filter((annotation) => annotation.resolved === (filter === 'resolved'));
+    const selectedResolved = selected?.resolved;
+
+    // A pin picked in the 3D view or from a notification shows its thread, under the right filter
+    useEffect(() => {
+        if (selectedId === null || selectedResolved === undefined) return;
+        setFilter(selectedResolved ? 'resolved' : 'open');
+        document.getElementById(`annotation-${selectedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [selectedId, selectedResolved]);
+
+    useEffect(() => {
+        setReply('');
+    }, [selectedId]);
+
+    const handleCreate = async () => {
+        if (!pending || !draft.trim()) return;
+
+        try {
+            setSubmitting(true);
+            const annotation = await createAnnotation(houseId, pending.position, pending.label, draft.trim(), findMentions(draft, people));
+            setDraft('');
+            onPendingDone(annotation);
+        } catch (error) {
+            console.error('Error creating annotation:', error);
+            showError(error, 'Failed to add the comment. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleReply = async () => {
+        if (!selected || !reply.trim()) return;
+
+        try {
+            setSubmitting(true);
+            await addComment(houseId, selected.id, reply.trim(), findMentions(reply, people));
+            setReply('');
+        } catch (error) {
+            console.error('Error adding comment:', error);
+            showError(error, 'Failed to add the reply. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleResolvedChange = async (annotation: Annotation, resolved: boolean) => {
+        try {
+            await setAnnotationResolved(houseId, annotation.id, resolved);
+        } catch (error) {
+            console.error('Error updating annotation:', error);
+            showError(error, `Failed to ${resolved ? 'resolve' : 'reopen'} the thread. Please try again.`);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 text-sm flex flex-col h-full">
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                    <MessageSquare className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    <span>Comments</span>
+                </div>
+                <div className="flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden text-xs">
+                    {(['open', 'resolved'] as Filter[]).map((value) => (
+                        <button
+                            key={value}
+                            onClick={() => setFilter(value)}
+                            className={`px-2 py-1 capitalize ${filter === value ? 'bg-gray-800 dark:bg-gray-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                        >
+                            {value} ({value === 'open' ? openCount : annotations.length - openCount})
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {pending && (
+                <div className="mb-3 p-3 border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/40 rounded-md space-y-2">
+                    <p className="font-medium text-indigo-800 dark:text-indigo-200">New comment on {pending.label}</p>
+                    <MentionInput value={draft} onChange={setDraft} people={people} onSubmit={handleCreate} placeholder="What should change here? Type @ to mention someone" autoFocus />
+                    <div className="flex justify-end space-x-2">
+                        <button
+                            onClick={() => {
+                                setDraft('');
+                                onPendingDone(null);
+                            }}
+                            className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                            Cancel
+                        </button>
+                        <button onClick={handleCreate} disabled={submitting || !draft.trim()} className={`${buttonClass} bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500`}>
+                            Comment
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-2">
+                {loading && <p className="text-gray-500 dark:text-gray-400">Loading...</p>}
+                {!loading && shown.length === 0 && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                        {filter === 'open' ? 'No open comments. Use the pin tool in the 3D view to start one.' : 'No resolved comments yet.'}
+                    </p>
+                )}
+                {shown.map((annotation) => {
+                    const number = annotations.indexOf(annotation) + 1;
+                    const isSelected = annotation.id === selectedId;
+                    const [first, ...replies] = annotation.comments;
+                    return (
+                        <div
+                            key={annotation.id}
+                            id={`annotation-${annotation.id}`}
+                            className={`border rounded-md ${isSelected ? 'border-indigo-400' : 'border-gray-200 dark:border-gray-700'}`}
+                        >
+                            <button onClick={() => onSelect(annotation)} className="w-full text-left p-2 flex items-start space-x-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+                                <span className={`w-6 h-6 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold text-white ${annotation.resolved ? 'bg-gray-400' : 'bg-amber-500'}`}>
+                                    {number}
+                                </span>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{annotation.label}</p>
+                                    <p className={`text-gray-800 dark:text-gray-100 ${isSelected ? '' : 'truncate'}`}>{first?.body}</p>
+                                    {!isSelected && replies.length > 0 && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</p>
+                                    )}
+                                </div>
+                            </button>
+                            {isSelected && (
+                                <div className="px-2 pb-2 space-y-3">
+                                    {first && <CommentBody comment={first} />}
+                                    {replies.map((comment) => (
+                                        <div key={comment.id} className="pl-3 border-l-2 border-gray-100 dark:border-gray-700">
+                                            <CommentBody comment={comment} />
+                                        </div>
+                                    ))}
+                                    {!annotation.resolved && (
+                                        <MentionInput value={reply} onChange={setReply} people={people} onSubmit={handleReply} placeholder="Reply, @ to mention" />
+                                    )}
+                                    <div className="flex justify-end space-x-2">
+                                        {annotation.resolved ? (
+                                            <button
+                                                onClick={() => handleResolvedChange(annotation, false)}
+                                                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-1"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                                <span>Reopen</span>
+                                            </button>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={() => handleResolvedChange(annotation, true)}
+                                                    className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-1"
+                                                >
+                                                    <CheckCircle2 className="w-4 h-4" />
+                                                    <span>Resolve</span>
+                                                </button>
+                                                <button onClick={handleReply} disabled={submitting || !reply.trim()} className={`${buttonClass} bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500`}>
+                                                    Reply
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
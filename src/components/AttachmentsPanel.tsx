@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { Paperclip, Upload, X, Trash2, FileText } from 'lucide-react';
+import api from '../Api';
+import { useToast } from '../hooks/useToast';
+import { Attachment } from '../types/attachment';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE, formatFileSize, isImage, isPdf, validateAttachment } from '../utils/attachments';
+
+interface AttachmentsPanelProps {
+    houseId: string;
+    readOnly?: boolean; // List the files without upload and delete controls
+}
+
+interface PendingUpload {
+    id: string;
+    file: File;
+    progress: number;
+    controller: AbortController;
+    error: string | null;
+}
+
+const AttachmentThumbnail = ({ url, contentType, name }: { url: string; contentType: string; name: string }) => {
+    if (isImage(contentType)) {
+        return <img src={url} alt={name} className="w-full h-32 object-cover" />;
+    }
+    if (isPdf(contentType)) {
+        return (
+            <iframe
+                src={`${url}#page=1&toolbar=0&view=FitH`}
+                title={name}
+                className="w-full h-32 pointer-events-none bg-white dark:bg-gray-800"
+            />
+        );
+    }
+    return (
+        <div className="w-full h-32 flex items-center justify-center bg-gray-100 dark:bg-gray-700">
+            <FileText className="w-10 h-10 text-gray-400" />
+        </div>
+    );
+};
+
+export default function AttachmentsPanel({ houseId, readOnly = false }: AttachmentsPanelProps) {
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [uploads, setUploads] = useState<PendingUpload[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    const { showError, showToast } = useToast();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const fetchAttachments = async () => {
+            try {
+                const response = await api.get<Attachment[]>(`/houses/${houseId}/attachments/`, { params: { kind: 'document' } });
+                setAttachments(response.data);
+            } catch (error) {
+                console.error('Error fetching attachments:', error);
+                showError(error, 'Failed to load attachments.');
+            }
+        };
+
+        fetchAttachments();
+    }, [houseId, showError]);
+
+    const updateUpload = (id: string, changes: Partial<PendingUpload>) => {
+        setUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+    };
+
+    const removeUpload = (id: string) => {
+        setUploads((current) => current.filter((upload) => upload.id !== id));
+    };
+
+    const uploadFile = async (upload: PendingUpload) => {
+        const formData = new FormData();
+        formData.append('file', upload.file);
+        formData.append('kind', 'document');
+
+        try {
+            const response = await api.post<Attachment>(`/houses/${houseId}/attachments/`, formData, {
+                signal: upload.controller.signal,
+                onUploadProgress: (event) => {
+                    if (event.total) {
+                        updateUpload(upload.id, { progress: Math.round((event.loaded / event.total) * 100) });
+                    }
+                },
+            });
+            setAttachments((current) => [...current, response.data]);
+            removeUpload(upload.id);
+        } catch (error) {
+            if (axios.isCancel(error)) {
+                removeUpload(upload.id);
+            } else {
+                console.error('Error uploading attachment:', error);
+                updateUpload(upload.id, { error: 'Upload failed' });
+                showError(error, `Failed to upload ${upload.file.name}.`);
+            }
+        }
+    };
+
+    const addFiles = (files: FileList | File[]) => {
+        const accepted: PendingUpload[] = [];
+
+        Array.from(files).forEach((file) => {
+            const problem = validateAttachment(file);
+            if (problem) {
+                showToast(problem, 'error');
+            } else {
+                accepted.push({ id: crypto.randomUUID(), file, progress: 0, controller: new AbortController(), error: null });
+            }
+        });
+
+        setUploads((current) => [...current, ...accepted]);
+        accepted.forEach(uploadFile);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        addFiles(event.dataTransfer.files);
+    };
+
+    const handleDelete = async (attachment: Attachment) => {
+        if (!window.confirm(`Are you sure you want to delete ${attachment.name}?`)) {
+            return;
+        }
+
+        try {
+            await api.delete(`/houses/${houseId}/attachments/${attachment.id}/`);
+            setAttachments((current) => current.filter((item) => item.id !== attachment.id));
+        } catch (error) {
+            console.error('Error deleting attachment:', error);
+            showError(error, 'Error deleting attachment. Please try again.');
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 space-y-4 text-sm">
+            <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                <Paperclip className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                <span>Files</span>
+            </div>
+
+            {!readOnly && (
+                <div
+                    onDragOver={(event) => {
+                        event.preventDefault();
+                        setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    onClick={() => inputRef.current?.click()}
+                    className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors duration-150 ${isDragging ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40' : 'border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                    <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                    <p className="text-gray-700 dark:text-gray-200">Drop mood boards, sketches or quotes here, or click to browse</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Images and PDF files up to {formatFileSize(MAX_ATTACHMENT_SIZE)}</p>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        multiple
+                        accept={Object.keys(ATTACHMENT_TYPES).join(',')}
+                        onChange={(e) => {
+                            if (e.target.files) addFiles(e.target.files);
+                            e.target.value = '';
+                        }}
+                        className="hidden"
+                    />
+                </div>
+            )}
+
+            {uploads.length > 0 && (
+                <ul className="space-y-2">
+                    {uploads.map((upload) => (
+                        <li key={upload.id} className="flex items-center space-x-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex justify-between text-gray-700 dark:text-gray-200">
+                                    <span className="truncate">{upload.file.name}</span>
+                                    <span className={upload.error ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}>
+                                        {upload.error ?? `${upload.progress}%`}
+                                    </span>
+                                </div>
+                                <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden mt-1">
+                                    <div
+                                        className={`h-full transition-all duration-150 ${upload.error ? 'bg-red-500' : 'bg-indigo-600'}`}
+                                        style={{ width: `${upload.progress}%` }}
+                                    />
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => (upload.error ? removeUpload(upload.id) : upload.controller.abort())}
+                                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                                aria-label={`Cancel upload of ${upload.file.name}`}
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {attachments.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {attachments.map((attachment) => (
+                        <div key={attachment.id} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                            <a href={attachment.file} target="_blank" rel="noreferrer">
+                                <AttachmentThumbnail url={attachment.file} contentType={attachment.content_type} name={attachment.name} />
+                            </a>
+                            <div className="p-2 flex items-center justify-between">
+                                <div className="min-w-0">
+                                    <p className="truncate text-gray-800 dark:text-gray-100">{attachment.name}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.size)}</p>
+                                </div>
+                                {!readOnly && (
+                                    <button
+                                        onClick={() => handleDelete(attachment)}
+                                        className="p-1 text-pink-500 hover:text-pink-700"
+                                        aria-label={`Delete ${attachment.name}`}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import { Calculator } from 'lucide-react';
+import { EstimateSettings, HouseDesign, SurfaceKind } from '../types/design';
+import {
+    CURRENCIES,
+    PRICED_MATERIALS,
+    SURFACES,
+    computeHouseGeometry,
+    estimateCost,
+    formatCurrency,
+    getDefaultEstimateSettings,
+} from '../utils/pricing';
+
+interface CostEstimatePanelProps {
+    width: number;
+    length: number;
+    height: number;
+    floors: number;
+    design: HouseDesign;
+    onChange: (estimate: EstimateSettings) => void;
+    readOnly?: boolean; // Show the estimate without letting prices or materials change
+}
+
+export default function CostEstimatePanel({ width, length, height, floors, design, onChange, readOnly = false }: CostEstimatePanelProps) {
+    const settings = design.estimate ?? getDefaultEstimateSettings();
+    const { rooms, openings } = design;
+
+    const geometry = useMemo(
+        () => computeHouseGeometry({ width, length, height, floors }, { rooms, openings }),
+        [width, length, height, floors, rooms, openings]
+    );
+    const estimate = useMemo(() => estimateCost(geometry, settings), [geometry, settings]);
+    const format = (amount: number) => formatCurrency(amount, settings.currency);
+
+    // Picking another material starts from that material's list price
+    const handleMaterialChange = (surface: SurfaceKind, materialId: string) => {
+        const material = PRICED_MATERIALS.find((item) => item.id === materialId);
+        onChange({
+            ...settings,
+            selections: { ...settings.selections, [surface]: { materialId, unitPrice: material?.unitPrice ?? 0 } },
+        });
+    };
+
+    const handlePriceChange = (surface: SurfaceKind, unitPrice: number) => {
+        onChange({
+            ...settings,
+            selections: { ...settings.selections, [surface]: { ...settings.selections[surface], unitPrice } },
+        });
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                    <Calculator className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    <span>Cost estimate</span>
+                </div>
+                <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-300">
+                    <span>Currency</span>
+                    <select
+                        value={settings.currency}
+                        onChange={(e) => onChange({ ...settings, currency: e.target.value })}
+                        disabled={readOnly}
+                        className="px-2 py-1 border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-white dark:bg-gray-800"
+                    >
+                        {CURRENCIES.map((currency) => (
+                            <option key={currency} value={currency}>{currency}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-gray-600 dark:text-gray-300">
+                <p>Perimeter: <span className="font-medium text-gray-800 dark:text-gray-100">{geometry.perimeter.toFixed(2)} m</span></p>
+                <p>Floor area: <span className="font-medium text-gray-800 dark:text-gray-100">{geometry.floorArea.toFixed(2)} m²</span></p>
+                <p>Wall area: <span className="font-medium text-gray-800 dark:text-gray-100">{geometry.wallArea.toFixed(2)} m²</span></p>
+                <p>Ceiling area: <span className="font-medium text-gray-800 dark:text-gray-100">{geometry.ceilingArea.toFixed(2)} m²</span></p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {SURFACES.map(({ value, label }) => (
+                    <div key={value} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-md space-y-2">
+                        <p className="font-medium text-gray-800 dark:text-gray-100">{label}</p>
+                        <select
+                            value={settings.selections[value].materialId}
+                            onChange={(e) => handleMaterialChange(value, e.target.value)}
+                            disabled={readOnly}
+                            className="w-full px-2 py-1 border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-white dark:bg-gray-800"
+                        >
+                            {PRICED_MATERIALS.filter((material) => material.surface === value).map((material) => (
+                                <option key={material.id} value={material.id}>{material.name}</option>
+                            ))}
+                        </select>
+                        <label className="block">
+                            <span className="block text-gray-600 dark:text-gray-300 mb-1">Price per m² ({settings.currency})</span>
+                            <input
+                                type="number"
+                                step={0.5}
+                                min={0}
+                                value={settings.selections[value].unitPrice}
+                                onChange={(e) => handlePriceChange(value, Math.max(0, Number(e.target.value)))}
+                                disabled={readOnly}
+                                className="w-full px-2 py-1 border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-white dark:bg-gray-800"
+                            />
+                        </label>
+                    </div>
+                ))}
+            </div>
+
+            <table className="w-full text-left">
+                <thead className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                        <th className="py-2 font-medium">Item</th>
+                        <th className="py-2 font-medium text-right">Area</th>
+                        <th className="py-2 font-medium text-right">Waste</th>
+                        <th className="py-2 font-medium text-right">Quantity</th>
+                        <th className="py-2 font-medium text-right">Unit price</th>
+                        <th className="py-2 font-medium text-right">Subtotal</th>
+                    </tr>
+                </thead>
+                <tbody className="text-gray-700 dark:text-gray-200">
+                    {estimate.lines.map((line) => (
+                        <tr key={line.surface} className="border-b border-gray-100 dark:border-gray-700">
+                            <td className="py-2">
+                                {SURFACES.find((surface) => surface.value === line.surface)?.label}: {line.material.name}
+                            </td>
+                            <td className="py-2 text-right">{line.area.toFixed(2)} m²</td>
+                            <td className="py-2 text-right">{Math.round(line.material.wasteFactor * 100)}%</td>
+                            <td className="py-2 text-right">{line.quantity.toFixed(2)} m²</td>
+                            <td className="py-2 text-right">{format(line.unitPrice)}</td>
+                            <td className="py-2 text-right">{format(estimate.subtotals[line.surface])}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot>
+                    <tr className="font-semibold text-gray-900 dark:text-gray-100">
+                        <td className="pt-3" colSpan={5}>Total</td>
+                        <td className="pt-3 text-right">{format(estimate.total)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Material only. Wall area follows the floor plan: exterior walls, every room's walls, minus doors and windows.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,60 @@
+import { Component, ErrorInfo, ReactNode } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface ErrorBoundaryProps {
+    children: ReactNode;
+    resetKey?: string; // Clears the error when it changes, e.g. on navigation
+}
+
+interface ErrorBoundaryState {
+    error: Error | null;
+}
+
+// Catches rendering errors below it so one broken page does not blank the whole app
+export default class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+    state: ErrorBoundaryState = { error: null };
+
+    static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+        return { error };
+    }
+
+    componentDidCatch(error: Error, info: ErrorInfo) {
+        console.error('Unexpected error while rendering:', error, info.componentStack);
+    }
+
+    componentDidUpdate(previous: ErrorBoundaryProps) {
+        if (this.state.error && previous.resetKey !== this.props.resetKey) {
+            this.setState({ error: null });
+        }
+    }
+
+    render() {
+        if (!this.state.error) {
+            return this.props.children;
+        }
+
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 p-4">
+                <div className="bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-lg w-full max-w-md border border-gray-200 dark:border-gray-700 text-center">
+                    <AlertTriangle className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-2">Something went wrong</h1>
+                    <p className="text-gray-600 dark:text-gray-300 mb-6">This page ran into an unexpected problem. Your saved work is safe.</p>
+                    <div className="flex justify-center space-x-3">
+                        <button
+                            onClick={() => this.setState({ error: null })}
+                            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition duration-150 ease-in-out"
+                        >
+                            Try again
+                        </button>
+                        <a
+                            href="/dashboard"
+                            className="px-4 py-2 bg-gray-800 dark:bg-gray-600 text-white rounded-md hover:bg-gray-700 dark:hover:bg-gray-500 transition duration-150 ease-in-out"
+                        >
+                            Back to dashboard
+                        </a>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+}
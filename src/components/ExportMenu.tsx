@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Object3D } from 'three';
+import { useToast } from '../hooks/useToast';
+import { EXPORT_FORMATS, ExportFormat, ExportUnit, downloadBlob, exportModel, getExportFileName } from '../utils/exportModel';
+
+interface ExportMenuProps {
+    houseName: string;
+    modelRef: React.RefObject<Object3D>;
+}
+
+export default function ExportMenu({ houseName, modelRef }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [format, setFormat] = useState<ExportFormat>('glb');
+    const [unit, setUnit] = useState<ExportUnit>('m');
+    const [zUp, setZUp] = useState(true);
+    const [exporting, setExporting] = useState(false);
+    const { showToast } = useToast();
+    const menuRef = useRef<HTMLDivElement>(null);
+    const hasUnits = format === 'obj' || format === 'stl';
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        }
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleExport = async () => {
+        if (!modelRef.current) return;
+
+        const options = { format, unit, zUp };
+        try {
+            setExporting(true);
+            const blob = await exportModel(modelRef.current, options);
+            downloadBlob(blob, getExportFileName(houseName, options));
+            setIsOpen(false);
+        } catch (error) {
+            console.error('Error exporting model:', error);
+            showToast('Export failed. Please try again.', 'error');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition duration-150 ease-in-out flex items-center space-x-2"
+            >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+            </button>
+            {isOpen && (
+                <div className="origin-top-right absolute right-0 mt-2 w-72 z-10 rounded-md shadow-lg p-4 bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 space-y-3 text-sm">
+                    <div className="space-y-1">
+                        {EXPORT_FORMATS.map(({ value, label }) => (
+                            <label key={value} className="flex items-center space-x-2 text-gray-700 dark:text-gray-200">
+                                <input type="radio" name="export-format" checked={format === value} onChange={() => setFormat(value)} />
+                                <span>{label}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {hasUnits ? (
+                        <div className="space-y-2 border-t border-gray-100 dark:border-gray-700 pt-3">
+                            <label className="flex items-center justify-between text-gray-700 dark:text-gray-200">
+                                <span>Units</span>
+                                <select
+                                    value={unit}
+                                    onChange={(e) => setUnit(e.target.value as ExportUnit)}
+                                    className="px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+                                >
+                                    <option value="m">Meters</option>
+                                    <option value="cm">Centimeters</option>
+                                    <option value="mm">Millimeters</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-200">
+                                <input type="checkbox" checked={zUp} onChange={(e) => setZUp(e.target.checked)} />
+                                <span>Z axis up (CAD)</span>
+                            </label>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700 pt-3">glTF files are always in meters, Y axis up.</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Exports the floors currently shown in the viewer.</p>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className={`w-full px-4 py-2 rounded-md text-white transition duration-150 ease-in-out ${exporting ? 'bg-gray-400' : 'bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500'}`}
+                    >
+                        {exporting ? 'Exporting...' : 'Download'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
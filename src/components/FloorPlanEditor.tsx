@@ -0,0 +1,385 @@
+import { useRef, useState } from 'react';
+import { MousePointer2, Square, Pentagon, Trash2, DoorOpen, AppWindow } from 'lucide-react';
+import OpeningEditor from './OpeningEditor';
+import { Opening, Point, Room } from '../types/design';
+import { distance, polygonArea, polygonCentroid } from '../utils/geometry';
+import { GRID_SIZE, createRoom, rectanglePoints, snapPoint, validateRooms } from '../utils/rooms';
+import { getFloorLabel } from '../utils/floors';
+import { createOpening, findWall, getFloorWalls, isSameWall, mergeFloorWalls, pickWall, pointAlongWall, validateOpenings } from '../utils/openings';
+
+interface FloorPlanEditorProps {
+    width: number;
+    length: number;
+    height: number;
+    floors: number;
+    rooms: Room[];
+    openings: Opening[];
+    onChange: (rooms: Room[]) => void;
+    onOpeningsChange: (openings: Opening[]) => void;
+    readOnly?: boolean; // Only look at the plan, e.g. for viewers of a shared house
+}
+
+type Tool = 'select' | 'rectangle' | 'polygon' | 'door' | 'window';
+
+const TOOLS: { value: Tool; label: string; icon: typeof Square }[] = [
+    { value: 'select', label: 'Select', icon: MousePointer2 },
+    { value: 'rectangle', label: 'Rectangle', icon: Square },
+    { value: 'polygon', label: 'Polygon', icon: Pentagon },
+    { value: 'door', label: 'Door', icon: DoorOpen },
+    { value: 'window', label: 'Window', icon: AppWindow },
+];
+
+const PADDING = 1; // Margin around the footprint, in meters
+
+const toSvgPoints = (points: Point[]) => points.map(([x, z]) => `${x},${z}`).join(' ');
+
+export default function FloorPlanEditor({
+    width, length, height, floors, rooms, openings, onChange, onOpeningsChange, readOnly = false,
+}: FloorPlanEditorProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [floor, setFloor] = useState(0);
+    const [tool, setTool] = useState<Tool>('select');
+    const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+    const [selectedOpeningId, setSelectedOpeningId] = useState<string | null>(null);
+    const [rectangleStart, setRectangleStart] = useState<Point | null>(null);
+    const [polygonPoints, setPolygonPoints] = useState<Point[]>([]);
+    const [cursor, setCursor] = useState<Point | null>(null);
+
+    const floorRooms = rooms.filter((room) => room.floor === floor);
+    const issues = validateRooms(rooms, width, length);
+    const floorIssues = issues.filter((issue) => floorRooms.some((room) => issue.roomIds.includes(room.id)));
+    const floorOpenings = openings.filter((opening) => opening.floor === floor);
+    const openingIssues = validateOpenings(floorOpenings, rooms, width, length, height / Math.max(floors, 1));
+    const walls = getFloorWalls(floor, rooms, width, length);
+    const wallPieces = mergeFloorWalls(walls);
+    const selectedOpening = floorOpenings.find((opening) => opening.id === selectedOpeningId) ?? null;
+
+    // Converts a pointer position to plan coordinates, snapped unless asked otherwise
+    const getPlanPoint = (event: React.PointerEvent | React.MouseEvent, snap = true): Point | null => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return null;
+
+        const point = svg.createSVGPoint();
+        point.x = event.clientX;
+        point.y = event.clientY;
+        const { x, y } = point.matrixTransform(matrix.inverse());
+        return snap ? snapPoint([x, y], width, length) : [x, y];
+    };
+
+    const addRoom = (points: Point[]) => {
+        const room = createRoom(floor, points, rooms);
+        onChange([...rooms, room]);
+        setSelectedRoomId(room.id);
+    };
+
+    const cancelDrawing = () => {
+        setRectangleStart(null);
+        setPolygonPoints([]);
+    };
+
+    const finishPolygon = () => {
+        if (polygonPoints.length >= 3) {
+            addRoom(polygonPoints);
+        }
+        setPolygonPoints([]);
+    };
+
+    const selectTool = (value: Tool) => {
+        cancelDrawing();
+        setTool(value);
+    };
+
+    const selectFloor = (value: number) => {
+        cancelDrawing();
+        setSelectedRoomId(null);
+        setSelectedOpeningId(null);
+        setFloor(value);
+    };
+
+    // Doors and windows go on the wall closest to where the user clicked, the one built where walls are shared
+    const addOpening = (type: 'door' | 'window', point: Point) => {
+        const picked = pickWall(point, wallPieces);
+        const wall = picked && walls.find((item) => isSameWall(item.ref, picked.wall.ref));
+        if (!picked || !wall) return;
+
+        const opening = createOpening(type, floor, wall, picked.wall.from + picked.offset);
+        onOpeningsChange([...openings, opening]);
+        setSelectedOpeningId(opening.id);
+        setSelectedRoomId(null);
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+        const point = getPlanPoint(event);
+        if (!point) return;
+
+        if (tool === 'select') {
+            setSelectedRoomId(null);
+            setSelectedOpeningId(null);
+        } else if (tool === 'door' || tool === 'window') {
+            const rawPoint = getPlanPoint(event, false);
+            if (rawPoint) addOpening(tool, rawPoint);
+        } else if (tool === 'rectangle') {
+            setRectangleStart(point);
+        } else if (polygonPoints.length >= 3 && distance(point, polygonPoints[0]) < GRID_SIZE / 2) {
+            // Clicking the first corner again closes the polygon
+            finishPolygon();
+        } else {
+            setPolygonPoints([...polygonPoints, point]);
+        }
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+        const point = getPlanPoint(event);
+        if (tool !== 'rectangle' || !rectangleStart || !point) return;
+
+        const points = rectanglePoints(rectangleStart, point);
+        if (polygonArea(points) > 0) {
+            addRoom(points);
+        }
+        setRectangleStart(null);
+    };
+
+    const updateRoom = (id: string, changes: Partial<Room>) => {
+        onChange(rooms.map((room) => (room.id === id ? { ...room, ...changes } : room)));
+    };
+
+    const deleteRoom = (id: string) => {
+        onChange(rooms.filter((room) => room.id !== id));
+        // Openings in the room's walls go with it
+        onOpeningsChange(openings.filter((opening) => opening.wall.kind !== 'room' || opening.wall.roomId !== id));
+        if (selectedRoomId === id) {
+            setSelectedRoomId(null);
+        }
+    };
+
+    const updateOpening = (updated: Opening) => {
+        onOpeningsChange(openings.map((opening) => (opening.id === updated.id ? updated : opening)));
+    };
+
+    const deleteOpening = (id: string) => {
+        onOpeningsChange(openings.filter((opening) => opening.id !== id));
+        setSelectedOpeningId(null);
+    };
+
+    const gridLines = (max: number) =>
+        Array.from({ length: Math.floor(max / GRID_SIZE) + 1 }, (_, i) => i * GRID_SIZE);
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className={`flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden text-sm ${readOnly ? 'invisible' : ''}`}>
+                    {TOOLS.map(({ value, label, icon: Icon }) => (
+                        <button
+                            key={value}
+                            onClick={() => selectTool(value)}
+                            className={`px-3 py-2 flex items-center space-x-2 transition-colors duration-150 ${tool === value ? 'bg-gray-800 dark:bg-gray-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                        >
+                            <Icon className="w-4 h-4" />
+                            <span>{label}</span>
+                        </button>
+                    ))}
+                </div>
+                {floors > 1 && (
+                    <select
+                        value={floor}
+                        onChange={(e) => selectFloor(Number(e.target.value))}
+                        className="px-3 py-2 text-sm border rounded-md focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                    >
+                        {Array.from({ length: floors }, (_, index) => (
+                            <option key={index} value={index}>{getFloorLabel(index)}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {(tool === 'door' || tool === 'window') && (
+                <p className="text-sm text-gray-600 dark:text-gray-300">Click on a wall to place a {tool}.</p>
+            )}
+            {tool === 'polygon' && (
+                <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+                    <span>Click to add corners, click the first corner again to close the room.</span>
+                    {polygonPoints.length > 0 && (
+                        <div className="space-x-2">
+                            <button onClick={cancelDrawing} className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700">
+                                Cancel
+                            </button>
+                            <button
+                                onClick={finishPolygon}
+                                disabled={polygonPoints.length < 3}
+                                className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                Finish
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <svg
+                    ref={svgRef}
+                    viewBox={`${-PADDING} ${-PADDING} ${width + PADDING * 2} ${length + PADDING * 2}`}
+                    className={`lg:col-span-2 w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md select-none touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerUp={handlePointerUp}
+                    onPointerMove={(event) => setCursor(getPlanPoint(event))}
+                    onPointerLeave={() => setCursor(null)}
+                >
+                    {/* Grid, with a darker line every meter */}
+                    {gridLines(width).map((x) => (
+                        <line key={`x${x}`} x1={x} y1={0} x2={x} y2={length}
+                              stroke={Number.isInteger(x) ? '#d1d5db' : '#e5e7eb'} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                    ))}
+                    {gridLines(length).map((z) => (
+                        <line key={`z${z}`} x1={0} y1={z} x2={width} y2={z}
+                              stroke={Number.isInteger(z) ? '#d1d5db' : '#e5e7eb'} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                    ))}
+
+                    {/* House outline */}
+                    <rect x={0} y={0} width={width} height={length} fill="none" stroke="#111827" strokeWidth={3} vectorEffect="non-scaling-stroke" />
+
+                    {floorRooms.map((room) => {
+                        const hasIssue = issues.some((issue) => issue.roomIds.includes(room.id));
+                        const [cx, cz] = polygonCentroid(room.points);
+                        return (
+                            <g key={room.id}>
+                                <polygon
+                                    points={toSvgPoints(room.points)}
+                                    fill={hasIssue ? '#fecaca' : room.id === selectedRoomId ? '#c7d2fe' : '#e0e7ff'}
+                                    fillOpacity={0.8}
+                                    stroke={hasIssue ? '#dc2626' : '#4f46e5'}
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                    onPointerDown={(event) => {
+                                        if (tool !== 'select') return;
+                                        event.stopPropagation();
+                                        setSelectedRoomId(room.id);
+                                    }}
+                                />
+                                <text x={cx} y={cz} fontSize={0.4} textAnchor="middle" className="pointer-events-none fill-gray-800">
+                                    {room.name}
+                                </text>
+                                <text x={cx} y={cz + 0.5} fontSize={0.3} textAnchor="middle" className="pointer-events-none fill-gray-500">
+                                    {polygonArea(room.points).toFixed(1)}m²
+                                </text>
+                            </g>
+                        );
+                    })}
+
+                    {/* Doors and windows: a gap in the wall, with the door's swing */}
+                    {floorOpenings.map((opening) => {
+                        const wall = findWall(opening.wall, floor, rooms, width, length);
+                        if (!wall) return null;
+
+                        const start = pointAlongWall(wall, opening.offset);
+                        const end = pointAlongWall(wall, opening.offset + opening.width);
+                        const [dx, dz] = [(end[0] - start[0]) / opening.width, (end[1] - start[1]) / opening.width];
+                        const leafEnd: Point = [start[0] - dz * opening.width, start[1] + dx * opening.width];
+                        const color = openingIssues.some((issue) => issue.openingId === opening.id)
+                            ? '#dc2626'
+                            : opening.type === 'door' ? '#92400e' : '#1d4ed8';
+                        const selected = opening.id === selectedOpeningId;
+
+                        return (
+                            <g
+                                key={opening.id}
+                                onPointerDown={(event) => {
+                                    if (tool !== 'select') return;
+                                    event.stopPropagation();
+                                    setSelectedOpeningId(opening.id);
+                                    setSelectedRoomId(null);
+                                }}
+                            >
+                                <line x1={start[0]} y1={start[1]} x2={end[0]} y2={end[1]}
+                                      stroke="#ffffff" strokeWidth={6} vectorEffect="non-scaling-stroke" />
+                                <line x1={start[0]} y1={start[1]} x2={end[0]} y2={end[1]}
+                                      stroke={color} strokeWidth={selected ? 4 : 2}
+                                      strokeDasharray={opening.type === 'window' ? '6 2' : undefined}
+                                      vectorEffect="non-scaling-stroke" />
+                                {opening.type === 'door' && (
+                                    <path
+                                        d={`M ${start[0]} ${start[1]} L ${leafEnd[0]} ${leafEnd[1]} A ${opening.width} ${opening.width} 0 0 0 ${end[0]} ${end[1]}`}
+                                        fill="none" stroke={color} strokeWidth={1} vectorEffect="non-scaling-stroke"
+                                    />
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {/* Room being drawn */}
+                    {rectangleStart && cursor && (
+                        <polygon points={toSvgPoints(rectanglePoints(rectangleStart, cursor))}
+                                 fill="#a5b4fc" fillOpacity={0.4} stroke="#4f46e5" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+                    )}
+                    {polygonPoints.length > 0 && (
+                        <polyline points={toSvgPoints(cursor ? [...polygonPoints, cursor] : polygonPoints)}
+                                  fill="none" stroke="#4f46e5" strokeWidth={2} strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+                    )}
+                    {polygonPoints.map(([x, z], i) => (
+                        <circle key={i} cx={x} cy={z} r={0.12} fill={i === 0 ? '#4f46e5' : '#ffffff'} stroke="#4f46e5" vectorEffect="non-scaling-stroke" />
+                    ))}
+                    {cursor && tool !== 'select' && (
+                        <circle cx={cursor[0]} cy={cursor[1]} r={0.08} fill="#111827" />
+                    )}
+                </svg>
+
+                <div className="space-y-3">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Rooms on {getFloorLabel(floor).toLowerCase()}</h3>
+                    {floorRooms.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {readOnly ? 'No rooms on this floor yet.' : 'Draw a rectangle or polygon on the plan to add a room.'}
+                        </p>
+                    )}
+                    {floorRooms.map((room) => (
+                        <div
+                            key={room.id}
+                            className={`flex items-center space-x-2 p-2 rounded-md border ${room.id === selectedRoomId ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/40' : 'border-gray-200 dark:border-gray-700'}`}
+                            onClick={() => setSelectedRoomId(room.id)}
+                        >
+                            {readOnly ? (
+                                <span className="flex-1 min-w-0 px-2 py-1 text-sm truncate">{room.name}</span>
+                            ) : (
+                                <input
+                                    type="text"
+                                    value={room.name}
+                                    onChange={(e) => updateRoom(room.id, { name: e.target.value })}
+                                    className="flex-1 min-w-0 px-2 py-1 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-transparent"
+                                    placeholder="Room name"
+                                />
+                            )}
+                            <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">{polygonArea(room.points).toFixed(1)}m²</span>
+                            {!readOnly && (
+                                <button
+                                    onClick={() => deleteRoom(room.id)}
+                                    className="p-1 text-pink-500 hover:text-pink-700"
+                                    aria-label={`Delete ${room.name}`}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {selectedOpening && !readOnly && (
+                        <OpeningEditor
+                            opening={selectedOpening}
+                            wall={findWall(selectedOpening.wall, floor, rooms, width, length)}
+                            onChange={updateOpening}
+                            onDelete={deleteOpening}
+                        />
+                    )}
+                    {(floorIssues.length > 0 || openingIssues.length > 0) && (
+                        <ul className="p-3 bg-red-100 dark:bg-red-900/40 border border-red-400 text-red-700 dark:text-red-400 rounded-lg text-sm space-y-1">
+                            {floorIssues.map((issue, i) => (
+                                <li key={i}>{issue.message}</li>
+                            ))}
+                            {openingIssues.map((issue, i) => (
+                                <li key={`opening-${i}`}>{issue.message}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,59 @@
+import { Layers } from 'lucide-react';
+import { FloorViewMode, getFloorLabel } from '../utils/floors';
+
+interface FloorSelectorProps {
+    floors: number;
+    selectedFloor: number | null;
+    mode: FloorViewMode;
+    onSelectFloor: (floor: number | null) => void;
+    onModeChange: (mode: FloorViewMode) => void;
+}
+
+const MODES: { value: FloorViewMode; label: string }[] = [
+    { value: 'isolate', label: 'Isolate' },
+    { value: 'highlight', label: 'Highlight' },
+    { value: 'ghost', label: 'Ghost' },
+];
+
+export default function FloorSelector({ floors, selectedFloor, mode, onSelectFloor, onModeChange }: FloorSelectorProps) {
+    // Upper floors first, like the buttons in an elevator
+    const floorIndexes = Array.from({ length: floors }, (_, index) => floors - 1 - index);
+
+    return (
+        <div className="bg-white/90 dark:bg-gray-800/90 rounded-lg shadow-md p-3 space-y-3 text-sm">
+            <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                <Layers className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                <span>Floors</span>
+            </div>
+            <div className="flex flex-col space-y-1">
+                <button
+                    onClick={() => onSelectFloor(null)}
+                    className={`px-3 py-1 rounded-md text-left transition-colors duration-150 ${selectedFloor === null ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-indigo-50 dark:hover:bg-indigo-900/40'}`}
+                >
+                    All floors
+                </button>
+                {floorIndexes.map((index) => (
+                    <button
+                        key={index}
+                        onClick={() => onSelectFloor(index)}
+                        className={`px-3 py-1 rounded-md text-left transition-colors duration-150 ${selectedFloor === index ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-indigo-50 dark:hover:bg-indigo-900/40'}`}
+                    >
+                        {getFloorLabel(index)}
+                    </button>
+                ))}
+            </div>
+            <div className="flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                {MODES.map(({ value, label }) => (
+                    <button
+                        key={value}
+                        onClick={() => onModeChange(value)}
+                        disabled={selectedFloor === null}
+                        className={`flex-1 px-2 py-1 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed ${mode === value ? 'bg-gray-800 dark:bg-gray-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
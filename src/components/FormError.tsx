@@ -0,0 +1,17 @@
+import { motion } from 'framer-motion';
+
+// Error about the form as a whole, e.g. wrong credentials, shown above its fields
+export default function FormError({ message }: { message?: string | null }) {
+    if (!message) return null;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            role="alert"
+            className="mb-4 p-3 bg-red-100 dark:bg-red-900/40 border border-red-400 text-red-700 dark:text-red-400 rounded-lg text-sm"
+        >
+            {message}
+        </motion.div>
+    );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Sofa, RotateCcw, RotateCw, Trash2, AlertTriangle } from 'lucide-react';
+import { FurnitureItem } from '../types/design';
+import { FURNITURE_CATALOG, ROTATION_STEP, clampToHouse, createFurniture, findCollisions, normalizeRotation } from '../utils/furniture';
+import { getFloorLabel } from '../utils/floors';
+
+interface FurniturePanelProps {
+    width: number;
+    length: number;
+    floors: number;
+    furniture: FurnitureItem[];
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onChange: (furniture: FurnitureItem[]) => void;
+}
+
+const toDegrees = (radians: number) => Math.round((radians * 180) / Math.PI);
+
+export default function FurniturePanel({ width, length, floors, furniture, selectedId, onSelect, onChange }: FurniturePanelProps) {
+    const [floor, setFloor] = useState(0);
+    const collidingIds = findCollisions(furniture);
+    const floorFurniture = furniture.filter((item) => item.floor === floor);
+    const selected = furniture.find((item) => item.id === selectedId) ?? null;
+
+    const addPiece = (type: string) => {
+        const entry = FURNITURE_CATALOG.find((catalogEntry) => catalogEntry.type === type);
+        if (!entry) return;
+
+        const item = clampToHouse(createFurniture(entry, floor, [width / 2, length / 2]), width, length);
+        onChange([...furniture, item]);
+        onSelect(item.id);
+    };
+
+    const updatePiece = (item: FurnitureItem) => {
+        const clamped = clampToHouse(item, width, length);
+        onChange(furniture.map((piece) => (piece.id === clamped.id ? clamped : piece)));
+    };
+
+    const rotatePiece = (item: FurnitureItem, rotation: number) => {
+        updatePiece({ ...item, rotation: normalizeRotation(rotation) });
+    };
+
+    const deletePiece = (id: string) => {
+        onChange(furniture.filter((piece) => piece.id !== id));
+        if (selectedId === id) {
+            onSelect(null);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                    <Sofa className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    <span>Furniture</span>
+                </div>
+                {floors > 1 && (
+                    <select
+                        value={floor}
+                        onChange={(e) => setFloor(Number(e.target.value))}
+                        className="px-3 py-1 text-sm border rounded-md focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                    >
+                        {Array.from({ length: floors }, (_, index) => (
+                            <option key={index} value={index}>{getFloorLabel(index)}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {FURNITURE_CATALOG.map((entry) => (
+                    <button
+                        key={entry.type}
+                        onClick={() => addPiece(entry.type)}
+                        className="p-2 border border-gray-200 dark:border-gray-700 rounded-md text-left text-sm hover:bg-indigo-50 dark:hover:bg-indigo-900/40 transition-colors duration-150"
+                    >
+                        <span className="block font-medium text-gray-800 dark:text-gray-100">{entry.name}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            {entry.width} × {entry.depth} × {entry.height}m
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {floorFurniture.length > 0 && (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                    {floorFurniture.map((item) => (
+                        <li
+                            key={item.id}
+                            onClick={() => onSelect(item.id)}
+                            className={`flex items-center justify-between px-2 py-2 cursor-pointer ${item.id === selectedId ? 'bg-indigo-50 dark:bg-indigo-900/40' : ''}`}
+                        >
+                            <span className="flex items-center space-x-2">
+                                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: item.color }} />
+                                <span className="text-gray-800 dark:text-gray-100">{item.name}</span>
+                                {collidingIds.has(item.id) && (
+                                    <span className="flex items-center text-red-600 text-xs">
+                                        <AlertTriangle className="w-3 h-3 mr-1" />
+                                        Collides
+                                    </span>
+                                )}
+                            </span>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    deletePiece(item.id);
+                                }}
+                                className="p-1 text-pink-500 hover:text-pink-700"
+                                aria-label={`Delete ${item.name}`}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {selected && (
+                <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded-md space-y-3 text-sm">
+                    <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-800 dark:text-gray-100">{selected.name}</span>
+                        <div className="flex space-x-2">
+                            <button
+                                onClick={() => rotatePiece(selected, selected.rotation - ROTATION_STEP)}
+                                className="p-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-white dark:hover:bg-gray-800"
+                                aria-label="Rotate 90° counter-clockwise"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => rotatePiece(selected, selected.rotation + ROTATION_STEP)}
+                                className="p-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-white dark:hover:bg-gray-800"
+                                aria-label="Rotate 90° clockwise"
+                            >
+                                <RotateCw className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                    <label className="block">
+                        <span className="text-gray-600 dark:text-gray-300">Rotation: {toDegrees(selected.rotation)}°</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={359}
+                            value={toDegrees(selected.rotation)}
+                            onChange={(e) => rotatePiece(selected, (Number(e.target.value) * Math.PI) / 180)}
+                            className="w-full"
+                        />
+                    </label>
+                    <p className="text-gray-500 dark:text-gray-400">Drag the piece in the 3D view to move it.</p>
+                </div>
+            )}
+        </div>
+    );
+}
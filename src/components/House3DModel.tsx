@@ -1,61 +1,410 @@
-import { useRef } from 'react';
-import { Canvas } from '@react-three/fiber';
+import { useEffect, useState } from 'react';
+import { Group, Object3D, Vector3 } from 'three';
+import { Canvas, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { Box, Plane } from '@react-three/drei';
-import { EdgesGeometry, LineSegments, LineBasicMaterial } from 'three';
+import { Box, Edges } from '@react-three/drei';
+import FloorSelector from './FloorSelector';
+import ViewerToolbar from './ViewerToolbar';
+import MaterialPicker from './MaterialPicker';
+import FloorWalls from './model/FloorWalls';
+import FurnitureLayer from './model/FurnitureLayer';
+import DimensionLines from './model/DimensionLines';
+import AreaOverlays from './model/AreaOverlays';
+import MeasurementLayer from './model/MeasurementLayer';
+import SurfaceMaterial from './model/SurfaceMaterial';
+import AnnotationPins from './model/AnnotationPins';
+import CameraFocus, { FocusRequest } from './model/CameraFocus';
+import PresenceCursors from './model/PresenceCursors';
+import PresenceAvatars from './PresenceAvatars';
+import { Annotation, ScenePoint } from '../types/annotation';
+import { Collaborator, ConnectionStatus, RemoteCursor } from '../types/collaboration';
+import { FurnitureItem, Opening, Room, SurfaceRef } from '../types/design';
+import { findCollisions } from '../utils/furniture';
+import { findWall } from '../utils/openings';
+import { getSurfaceKey, getSurfaceMaterial } from '../utils/materials';
+import { UnitSystem } from '../utils/units';
+import { FloorLevel, FloorViewMode, SLAB_THICKNESS, getFloorAppearance, getFloorLabel, getFloorLevels } from '../utils/floors';
 
 interface House3DModelProps {
-    width: number;  // Width of the box
-    height: number; // Height of the box
-    length: number; // Length (depth) of the box
+    width: number;  // Width of the house (x axis)
+    height: number; // Total height of the house, shared between its floors
+    length: number; // Length (depth) of the house (z axis)
+    floors: number; // Number of storeys
+    rooms?: Room[]; // Rooms drawn on the floor plan, rendered as interior walls
+    openings?: Opening[]; // Doors and windows cut into the walls
+    furniture?: FurnitureItem[];
+    selectedFurnitureId?: string | null;
+    onSelectFurniture?: (id: string | null) => void;
+    onFurnitureChange?: (item: FurnitureItem) => void; // Omit to make the furniture read-only
+    onFurnitureDraggingChange?: (dragging: boolean) => void; // A drag calls onFurnitureChange for every move
+    importedModel?: Object3D | null; // Geometry imported from a glTF/OBJ file, already fitted to the house
+    modelRef?: React.Ref<Group>; // Root of the house geometry, without lights and controls, e.g. for exports
+    unitSystem?: UnitSystem; // Units of the measurement tools; the toolbar can switch them until this changes
+    surfaceMaterials?: Record<string, string>; // Materials assigned to walls, floors and ceilings
+    onSurfaceMaterialsChange?: (surfaceMaterials: Record<string, string>) => void; // Omit to hide the material tool
+    annotations?: Annotation[]; // Comment pins
+    pendingAnnotation?: ScenePoint | null; // Pin placed but not commented yet
+    selectedAnnotationId?: number | null;
+    onSelectAnnotation?: (id: number) => void;
+    onAddAnnotation?: (position: ScenePoint, label: string) => void; // Omit to hide the pin tool
+    focusRequest?: FocusRequest | null; // Moves the camera to a point, e.g. a pin picked in the comments panel
+    collaborators?: Collaborator[]; // Others with the house open
+    connectionStatus?: ConnectionStatus; // Of the live channel; omit to hide the presence avatars
+    cursors?: RemoteCursor[];
+    onCursorMove?: (position: ScenePoint | null) => void; // Null when the pointer leaves the model
 }
 
-const House3DModel = ({ width, height, length }: House3DModelProps) => {
-    const boxRef = useRef<any>(null);
+interface FloorLevelMeshProps {
+    level: FloorLevel;
+    width: number;
+    length: number;
+    rooms: Room[];
+    openings: Opening[];
+    visible: boolean;
+    opacity: number;
+    highlighted: boolean;
+    surfaceMaterials: Record<string, string>;
+    selectedSurfaceKey: string | null;
+}
 
-    // Function to create the edges (black border) of the box
-    const createBoxEdges = () => {
-        if (boxRef.current) {
-            const geometry = new EdgesGeometry(boxRef.current.geometry);
-            const material = new LineBasicMaterial({ color: 0x000000, linewidth: 1 }); // Black outline
-            return new LineSegments(geometry, material);
-        }
-        return null;
-    };
+// Offset of the floor and ceiling finishes from the slabs, so they never fight over the same depth
+const FINISH_OFFSET = 0.002;
+
+// One storey: the slab it stands on, the outline of its walls and its rooms
+const FloorLevelMesh = ({
+    level, width, length, rooms, openings, visible, opacity, highlighted, surfaceMaterials, selectedSurfaceKey,
+}: FloorLevelMeshProps) => {
+    const edgeColor = highlighted ? 0x4f46e5 : 0x000000;
+    const floorSurface: SurfaceRef = { kind: 'floor', floor: level.index };
+    const ceilingSurface: SurfaceRef = { kind: 'ceiling', floor: level.index };
 
     return (
-        <Canvas camera={{ position: [width * 1.5, height * 1.5, length * 2], fov: 75 }}>
-            {/* Lighting Setup */}
-            <ambientLight intensity={0.5} />  {/* Soft light */}
-            <directionalLight position={[10, 10, 5]} intensity={1} />  {/* Stronger directional light */}
-
-            {/* Floor (use Plane or Box) */}
-            <Plane
-                args={[width, length]} // The floor's width and length
-                rotation={[-Math.PI / 2, 0, 0]} // Rotate to make it horizontal
-                position={[0, -height / 2, 0]} // Place it below the box
+        <group visible={visible}>
+            {/* Floor slab */}
+            <Box
+                args={[width, SLAB_THICKNESS, length]}
+                position={[0, level.elevation - SLAB_THICKNESS / 2, 0]}
             >
-                <meshStandardMaterial color={0x888888} />
-            </Plane>
+                <meshStandardMaterial
+                    color={highlighted ? 0xa5b4fc : 0x888888}
+                    transparent={opacity < 1}
+                    opacity={opacity}
+                />
+            </Box>
 
-            {/* Box (representing the walls) */}
+            {/* Floor finish, on top of the slab */}
+            <mesh
+                rotation={[-Math.PI / 2, 0, 0]}
+                position={[0, level.elevation + FINISH_OFFSET, 0]}
+                userData={{ surface: floorSurface }}
+            >
+                <planeGeometry args={[width, length]} />
+                <SurfaceMaterial
+                    material={getSurfaceMaterial(surfaceMaterials, floorSurface)}
+                    width={width}
+                    height={length}
+                    color={0x888888}
+                    tint={highlighted ? 0xa5b4fc : null}
+                    opacity={opacity}
+                    selected={getSurfaceKey(floorSurface) === selectedSurfaceKey}
+                />
+            </mesh>
+
+            {/* Ceiling, facing down so it only shows from inside the storey */}
+            <mesh
+                rotation={[Math.PI / 2, 0, 0]}
+                position={[0, level.elevation + level.height - FINISH_OFFSET, 0]}
+                userData={{ surface: ceilingSurface }}
+            >
+                <planeGeometry args={[width, length]} />
+                <SurfaceMaterial
+                    material={getSurfaceMaterial(surfaceMaterials, ceilingSurface)}
+                    width={width}
+                    height={length}
+                    color={0xfafafa}
+                    opacity={opacity}
+                    selected={getSurfaceKey(ceilingSurface) === selectedSurfaceKey}
+                />
+            </mesh>
+
+            {/* Walls of the storey, drawn as a transparent box with a black outline */}
             <Box
-                ref={boxRef}
-                args={[width, height, length]}  // Create a box with width, height, and length
-                position={[0, height / 2, 0]}    // Center the box on the floor
+                args={[width, level.height, length]}
+                position={[0, level.elevation + level.height / 2, 0]}
+                raycast={() => null}
             >
-                {/* Transparent material */}
-                <meshStandardMaterial color={0xffffff} transparent={true} opacity={0} />
+                <meshStandardMaterial color={0xffffff} transparent={true} opacity={0} depthWrite={false} />
+                <Edges color={edgeColor} transparent={opacity < 1} opacity={opacity} />
             </Box>
 
-            {/* Add black border outline around the box */}
-            {createBoxEdges() && (
-                <primitive object={createBoxEdges()} />
+            <FloorWalls
+                rooms={rooms}
+                openings={openings}
+                level={level}
+                width={width}
+                length={length}
+                opacity={opacity}
+                surfaceMaterials={surfaceMaterials}
+                selectedSurfaceKey={selectedSurfaceKey}
+            />
+        </group>
+    );
+};
+
+const getSurfaceLabel = (surface: SurfaceRef, rooms: Room[], width: number, length: number) => {
+    const floorLabel = getFloorLabel(surface.floor);
+    switch (surface.kind) {
+        case 'floor':
+            return `${floorLabel}, floor`;
+        case 'ceiling':
+            return `${floorLabel}, ceiling`;
+        case 'wall':
+            return `${floorLabel}, ${findWall(surface.wall, surface.floor, rooms, width, length)?.label ?? 'wall'}`;
+    }
+};
+
+// Hidden floors stay in the scene, so the raycaster still reaches them
+const isShown = (object: Object3D | null): boolean => !object || (object.visible && isShown(object.parent));
+
+const House3DModel = ({
+    width, height, length, floors, rooms = [], openings = [], furniture = [], selectedFurnitureId = null, onSelectFurniture, onFurnitureChange, onFurnitureDraggingChange, importedModel, modelRef, unitSystem: preferredUnitSystem = 'metric',
+    surfaceMaterials = {}, onSurfaceMaterialsChange,
+    annotations = [], pendingAnnotation = null, selectedAnnotationId = null, onSelectAnnotation, onAddAnnotation, focusRequest = null,
+    collaborators = [], connectionStatus, cursors = [], onCursorMove,
+}: House3DModelProps) => {
+    const [selectedFloor, setSelectedFloor] = useState<number | null>(null);
+    const [viewMode, setViewMode] = useState<FloorViewMode>('isolate');
+    const [isDragging, setIsDragging] = useState(false);
+    const [measuring, setMeasuring] = useState(false);
+    const [measurePoints, setMeasurePoints] = useState<Vector3[]>([]);
+    const [showDimensions, setShowDimensions] = useState(false);
+    const [showAreas, setShowAreas] = useState(false);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>(preferredUnitSystem);
+    const [painting, setPainting] = useState(false);
+    const [pinning, setPinning] = useState(false);
+    const [selectedSurface, setSelectedSurface] = useState<SurfaceRef | null>(null);
+    const selectedSurfaceKey = painting && selectedSurface ? getSurfaceKey(selectedSurface) : null;
+    const levels = getFloorLevels(height, floors);
+    const collidingIds = findCollisions(furniture);
+    // Dimension and area overlays follow the floor selector, the ground floor when all are shown
+    const overlayLevel = levels[selectedFloor ?? 0] ?? levels[0];
+    const overlayRooms = rooms.filter((room) => room.floor === overlayLevel.index);
+
+    // Follow the units chosen in the settings, e.g. labels already on screen
+    useEffect(() => {
+        setUnitSystem(preferredUnitSystem);
+    }, [preferredUnitSystem]);
+
+    const handleSceneClick = (event: ThreeEvent<MouseEvent>) => {
+        // With the pin tool, a click drops a pin on whatever it hits, named for the comments panel
+        if (pinning) {
+            if (!isShown(event.object)) return;
+            event.stopPropagation();
+            const surface = event.object.userData.surface as SurfaceRef | undefined;
+            const furnitureName = event.object.userData.furniture as string | undefined;
+            const label = surface
+                ? getSurfaceLabel(surface, rooms, width, length)
+                : furnitureName ?? (importedModel ? 'Imported model' : 'House');
+            onAddAnnotation?.(event.point.toArray(), label);
+            setPinning(false);
+            return;
+        }
+
+        // With the material tool, clicks pick the nearest visible wall, floor or ceiling
+        if (painting) {
+            const surface = event.object.userData.surface as SurfaceRef | undefined;
+            if (!surface || !isShown(event.object)) return;
+            event.stopPropagation();
+            setSelectedSurface(surface);
+            return;
+        }
+
+        // Each click picks a point on what is shown; a third click starts a new measurement
+        if (!measuring || !isShown(event.object)) return;
+        event.stopPropagation();
+        setMeasurePoints((points) => (points.length >= 2 ? [event.point.clone()] : [...points, event.point.clone()]));
+    };
+
+    const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+        if (!onCursorMove || !isShown(event.object)) return;
+        event.stopPropagation();
+        onCursorMove(event.point.toArray());
+    };
+
+    const handleMeasuringChange = (value: boolean) => {
+        setMeasuring(value);
+        setMeasurePoints([]);
+        if (value) {
+            setPainting(false);
+            setPinning(false);
+        }
+    };
+
+    const handlePaintingChange = (value: boolean) => {
+        setPainting(value);
+        setSelectedSurface(null);
+        if (value) {
+            handleMeasuringChange(false);
+            setPinning(false);
+        }
+    };
+
+    const handlePinningChange = (value: boolean) => {
+        if (value) {
+            handleMeasuringChange(false);
+            handlePaintingChange(false);
+        }
+        setPinning(value);
+    };
+
+    const handleMaterialChange = (materialId: string | null) => {
+        if (!selectedSurface || !onSurfaceMaterialsChange) return;
+        const next = { ...surfaceMaterials };
+        if (materialId) {
+            next[getSurfaceKey(selectedSurface)] = materialId;
+        } else {
+            delete next[getSurfaceKey(selectedSurface)];
+        }
+        onSurfaceMaterialsChange(next);
+    };
+
+    return (
+        <div className="relative w-full h-full">
+            <Canvas camera={{ position: [width * 1.5, height * 1.5, length * 2], fov: 75 }}>
+                {/* Lighting Setup */}
+                <ambientLight intensity={0.5} />  {/* Soft light */}
+                <directionalLight position={[10, 10, 5]} intensity={1} />  {/* Stronger directional light */}
+
+                <group
+                    ref={modelRef}
+                    name="house"
+                    onClick={handleSceneClick}
+                    onPointerMove={handlePointerMove}
+                    onPointerLeave={() => onCursorMove?.(null)}
+                >
+                    {levels.map((level) => {
+                        const appearance = getFloorAppearance(level.index, selectedFloor, viewMode);
+                        return (
+                            <group key={level.index}>
+                                <FloorLevelMesh
+                                    level={level}
+                                    width={width}
+                                    length={length}
+                                    rooms={rooms.filter((room) => room.floor === level.index)}
+                                    openings={openings.filter((opening) => opening.floor === level.index)}
+                                    surfaceMaterials={surfaceMaterials}
+                                    selectedSurfaceKey={selectedSurfaceKey}
+                                    {...appearance}
+                                />
+                                {appearance.visible && (
+                                    <FurnitureLayer
+                                        furniture={furniture.filter((item) => item.floor === level.index)}
+                                        level={level}
+                                        width={width}
+                                        length={length}
+                                        opacity={appearance.opacity}
+                                        selectedId={selectedFurnitureId}
+                                        collidingIds={collidingIds}
+                                        editable={!!onFurnitureChange && !measuring && !painting && !pinning}
+                                        onSelect={(id) => onSelectFurniture?.(id)}
+                                        onChange={(item) => onFurnitureChange?.(item)}
+                                        onDraggingChange={(dragging) => {
+                                            setIsDragging(dragging);
+                                            onFurnitureDraggingChange?.(dragging);
+                                        }}
+                                    />
+                                )}
+                            </group>
+                        );
+                    })}
+
+                    {importedModel && <primitive object={importedModel} />}
+
+                    {/* Roof slab closing the top floor */}
+                    {(selectedFloor === null || viewMode !== 'isolate') && (
+                        <Box args={[width, SLAB_THICKNESS, length]} position={[0, height + SLAB_THICKNESS / 2, 0]}>
+                            <meshStandardMaterial color={0x888888} transparent={true} opacity={0.15} depthWrite={false} />
+                        </Box>
+                    )}
+                </group>
+
+                {/* Measurement overlays, kept outside the house group so they are never exported */}
+                {showDimensions && (
+                    <DimensionLines rooms={overlayRooms} level={overlayLevel} width={width} length={length} unitSystem={unitSystem} />
+                )}
+                {showAreas && (
+                    <AreaOverlays rooms={overlayRooms} level={overlayLevel} width={width} length={length} unitSystem={unitSystem} />
+                )}
+                {measuring && <MeasurementLayer points={measurePoints} unitSystem={unitSystem} />}
+                <AnnotationPins
+                    annotations={annotations}
+                    pending={pendingAnnotation}
+                    selectedId={selectedAnnotationId}
+                    onSelect={(id) => onSelectAnnotation?.(id)}
+                />
+                <PresenceCursors cursors={cursors} />
+
+                {/* OrbitControls for interaction, orbiting around the middle of the house */}
+                <OrbitControls makeDefault target={[0, height / 2, 0]} enabled={!isDragging} />
+                <CameraFocus request={focusRequest} />
+            </Canvas>
+
+            <div className="absolute top-3 right-3">
+                <ViewerToolbar
+                    measuring={measuring}
+                    showDimensions={showDimensions}
+                    showAreas={showAreas}
+                    unitSystem={unitSystem}
+                    onMeasuringChange={handleMeasuringChange}
+                    onShowDimensionsChange={setShowDimensions}
+                    onShowAreasChange={setShowAreas}
+                    onUnitSystemChange={setUnitSystem}
+                    painting={painting}
+                    onPaintingChange={onSurfaceMaterialsChange && handlePaintingChange}
+                    pinning={pinning}
+                    onPinningChange={onAddAnnotation && handlePinningChange}
+                />
+                {painting && (
+                    <div className="mt-2">
+                        <MaterialPicker
+                            surfaceKind={selectedSurface?.kind ?? null}
+                            surfaceLabel={selectedSurface ? getSurfaceLabel(selectedSurface, rooms, width, length) : ''}
+                            materialId={selectedSurfaceKey ? surfaceMaterials[selectedSurfaceKey] ?? null : null}
+                            onChange={handleMaterialChange}
+                            onClose={() => handlePaintingChange(false)}
+                        />
+                    </div>
+                )}
+            </div>
+            {measuring && (
+                <div className="absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1 rounded-md bg-gray-800/90 text-white text-sm">
+                    Click two points on the model to measure the distance between them
+                </div>
+            )}
+            {pinning && (
+                <div className="absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1 rounded-md bg-gray-800/90 text-white text-sm">
+                    Click a wall, floor or piece of furniture to pin a comment to it
+                </div>
             )}
 
-            {/* OrbitControls for interaction */}
-            <OrbitControls />
-        </Canvas>
+            {connectionStatus && (
+                <div className="absolute bottom-3 left-3">
+                    <PresenceAvatars collaborators={collaborators} status={connectionStatus} />
+                </div>
+            )}
+
+            {floors > 1 && (
+                <div className="absolute top-3 left-3">
+                    <FloorSelector
+                        floors={levels.length}
+                        selectedFloor={selectedFloor}
+                        mode={viewMode}
+                        onSelectFloor={setSelectedFloor}
+                        onModeChange={setViewMode}
+                    />
+                </div>
+            )}
+        </div>
     );
 };
 
@@ -0,0 +1,105 @@
+import { Home, Trash2, Edit2, Paperclip, Copy, LayoutTemplate } from 'lucide-react';
+import { House } from '../types/house';
+import { ROLE_LABELS } from '../utils/permissions';
+
+interface HouseCardProps {
+    house: House;
+    onOpenAttachments: (house: House) => void;
+    onEdit?: (house: House) => void; // Omit to hide the edit button, e.g. for viewers
+    onDelete?: (house: House) => void; // Omit to hide the delete button, e.g. for everyone but the owner
+    onDuplicate?: (house: House) => void; // Omit to hide the duplicate button
+    onSaveAsTemplate?: (house: House) => void; // Omit to hide the template button
+}
+
+const DIMENSIONS: { key: 'width' | 'length' | 'height' | 'floors'; label: string; unit: string }[] = [
+    { key: 'width', label: 'Width', unit: 'm' },
+    { key: 'length', label: 'Length', unit: 'm' },
+    { key: 'height', label: 'Height', unit: 'm' },
+    { key: 'floors', label: 'Floors', unit: '' },
+];
+
+export default function HouseCard({ house, onOpenAttachments, onEdit, onDelete, onDuplicate, onSaveAsTemplate }: HouseCardProps) {
+    return (
+        <div
+            className="bg-indigo-50 dark:bg-indigo-900/40 border-2 border-indigo-200 dark:border-indigo-800 rounded-xl shadow-lg hover:shadow-xl transition-shadow duration-300 overflow-hidden flex flex-col">
+            <div className="p-6 sm:p-8 flex-grow">
+                <div className="flex items-center space-x-4 mb-6">
+                    <Home className="w-8 h-8 text-indigo-600 dark:text-indigo-400"/>
+                    <div className="min-w-0">
+                        <h3 className="text-2xl font-bold text-indigo-900 dark:text-indigo-200">{house.name}</h3>
+                        {house.owner_email && (
+                            <p className="text-sm text-indigo-700 dark:text-indigo-300">Shared by {house.owner_email}</p>
+                        )}
+                    </div>
+                    {house.role && house.role !== 'owner' && (
+                        <span className="ml-auto px-2 py-1 rounded-full text-xs font-medium bg-white dark:bg-gray-800 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-800">
+                            {ROLE_LABELS[house.role]}
+                        </span>
+                    )}
+                </div>
+                <dl className="grid grid-cols-1 sm:grid-cols-4 gap-6 text-base">
+                    {DIMENSIONS.map(({ key, label, unit }) => (
+                        <div
+                            key={key}
+                            className="flex items-center space-x-3 bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+                            <div>
+                                <dt className="text-indigo-600 dark:text-indigo-400 font-medium">{label}</dt>
+                                <dd className="mt-1 text-xl font-semibold text-indigo-900 dark:text-indigo-200">{house[key]}{unit}</dd>
+                            </div>
+                        </div>
+                    ))}
+                </dl>
+            </div>
+            <div className="border-t border-indigo-200 dark:border-indigo-800 p-4 bg-white dark:bg-gray-800 flex flex-wrap justify-end gap-3">
+                <button
+                    onClick={() => onOpenAttachments(house)}
+                    className="px-4 py-2 bg-amber-400 text-white rounded-md hover:#facc15 transition-colors duration-200 flex items-center space-x-2"
+                    aria-label="Design Attachment"
+                >
+                    <Paperclip className="w-4 h-4"/>
+                    <span>Design Attachment</span>
+                </button>
+                {onDuplicate && (
+                    <button
+                        onClick={() => onDuplicate(house)}
+                        className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 flex items-center space-x-2"
+                        aria-label="Duplicate house"
+                    >
+                        <Copy className="w-4 h-4"/>
+                        <span>Duplicate</span>
+                    </button>
+                )}
+                {onSaveAsTemplate && (
+                    <button
+                        onClick={() => onSaveAsTemplate(house)}
+                        className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 flex items-center space-x-2"
+                        aria-label="Save as template"
+                    >
+                        <LayoutTemplate className="w-4 h-4"/>
+                        <span>Save as template</span>
+                    </button>
+                )}
+                {onEdit && (
+                    <button
+                        onClick={() => onEdit(house)}
+                        className="px-4 py-2 bg-teal-500 text-white rounded-md hover:bg-teal-600 transition-colors duration-200 flex items-center space-x-2"
+                        aria-label="Edit house"
+                    >
+                        <Edit2 className="w-4 h-4"/>
+                        <span>Edit</span>
+                    </button>
+                )}
+                {onDelete && (
+                    <button
+                        onClick={() => onDelete(house)}
+                        className="px-4 py-2 bg-pink-500 text-white rounded-md hover:bg-pink-600 transition-colors duration-200 flex items-center space-x-2"
+                        aria-label="Delete house"
+                    >
+                        <Trash2 className="w-4 h-4"/>
+                        <span>Delete</span>
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+import { SlidersHorizontal, X } from 'lucide-react';
+import { HouseOrdering, HouseQuery, SORT_OPTIONS, hasFilters } from '../utils/houseQuery';
+
+interface HouseFiltersProps {
+    query: HouseQuery;
+    onChange: (changes: Partial<HouseQuery>) => void;
+    onClear: () => void;
+}
+
+type RangeField = 'floorsMin' | 'floorsMax' | 'areaMin' | 'areaMax';
+
+const RANGES: { label: string; min: RangeField; max: RangeField; step: number }[] = [
+    { label: 'Floors', min: 'floorsMin', max: 'floorsMax', step: 1 },
+    { label: 'Area (m²)', min: 'areaMin', max: 'areaMax', step: 10 },
+];
+
+const inputClass = 'w-20 px-2 py-1 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-gray-50 dark:bg-gray-900';
+
+export default function HouseFilters({ query, onChange, onClear }: HouseFiltersProps) {
+    const handleRangeChange = (field: RangeField, value: string) => {
+        onChange({ [field]: value === '' ? null : Math.max(0, Number(value)) });
+    };
+
+    return (
+        <div className="mb-6 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm flex flex-wrap items-end gap-6 text-sm">
+            <SlidersHorizontal className="w-5 h-5 text-gray-400 mb-1" />
+            {RANGES.map(({ label, min, max, step }) => (
+                <div key={label}>
+                    <span className="block font-medium text-gray-700 dark:text-gray-200 mb-1">{label}</span>
+                    <div className="flex items-center space-x-2">
+                        <input
+                            type="number"
+                            min={0}
+                            step={step}
+                            value={query[min] ?? ''}
+                            onChange={(e) => handleRangeChange(min, e.target.value)}
+                            placeholder="Min"
+                            aria-label={`Minimum ${label.toLowerCase()}`}
+                            className={inputClass}
+                        />
+                        <span className="text-gray-400">to</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={step}
+                            value={query[max] ?? ''}
+                            onChange={(e) => handleRangeChange(max, e.target.value)}
+                            placeholder="Max"
+                            aria-label={`Maximum ${label.toLowerCase()}`}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            ))}
+            <label className="block">
+                <span className="block font-medium text-gray-700 dark:text-gray-200 mb-1">Sort by</span>
+                <select
+                    value={query.ordering}
+                    onChange={(e) => onChange({ ordering: e.target.value as HouseOrdering })}
+                    className="px-2 py-1 border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-gray-50 dark:bg-gray-900"
+                >
+                    {SORT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            {hasFilters(query) && (
+                <button onClick={onClear} className="ml-auto flex items-center space-x-1 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100">
+                    <X className="w-4 h-4" />
+                    <span>Clear filters</span>
+                </button>
+            )}
+        </div>
+    );
+}
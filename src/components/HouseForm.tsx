@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import FormError from './FormError';
+import { useQuery } from '../hooks/useQuery';
+import { HOUSE_FIELDS, HouseFormData, createHouseSchema } from '../schemas/houseSchema';
+import { NAME_CHECK_PARAMS, fetchHouses, houseKeys } from '../services/houses';
+import { deleteDraft, getDraft, saveDraft } from '../services/offlineStore';
+import { formatRelativeTime } from '../utils/dates';
+import { setServerErrors } from '../utils/formErrors';
+
+interface HouseFormProps {
+    defaultValues: HouseFormData;
+    houseId?: number; // The house being edited, whose own name is not taken
+    draftKey?: string; // Where unsaved input is kept on the device; one per house by default
+    submitLabel: string;
+    submittingLabel: string;
+    errorMessage: string; // Shown when the API rejects the house without saying why
+    onSubmit: (data: HouseFormData) => Promise<void>;
+    onCancel: () => void;
+}
+
+// Typing pause after which the form is written to the device
+const DRAFT_DELAY = 500;
+
+const inputClass = 'w-full px-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900';
+
+const DIMENSION_FIELDS: { name: 'width' | 'length' | 'height' | 'floors'; label: string; step: number }[] = [
+    { name: 'width', label: 'Width (m)', step: 0.1 },
+    { name: 'length', label: 'Length (m)', step: 0.1 },
+    { name: 'height', label: 'Height (m)', step: 0.1 },
+    { name: 'floors', label: 'Floors', step: 1 },
+];
+
+export default function HouseForm({ defaultValues, houseId, draftKey = `house-form/${houseId ?? 'new'}`, submitLabel, submittingLabel, errorMessage, onSubmit, onCancel }: HouseFormProps) {
+    const idPrefix = `house-${houseId ?? 'new'}`;
+    const draftTimeout = useRef<ReturnType<typeof setTimeout>>();
+    const [restoredAt, setRestoredAt] = useState<string | null>(null);
+    // If this fails the API still rejects duplicates, the form just cannot warn ahead of time
+    const { data: allHouses } = useQuery(houseKeys.list(NAME_CHECK_PARAMS), () => fetchHouses(NAME_CHECK_PARAMS));
+    const schema = useMemo(
+        () => createHouseSchema((allHouses?.results ?? []).filter((house) => house.id !== houseId).map((house) => house.name)),
+        [allHouses, houseId]
+    );
+    const { register, handleSubmit, setError, reset, watch, formState: { errors, isSubmitting } } = useForm<HouseFormData>({
+        resolver: zodResolver(schema),
+        defaultValues,
+        mode: 'onChange',
+    });
+
+    // Bring back what was typed before the page was closed
+    useEffect(() => {
+        let cancelled = false;
+        getDraft<HouseFormData>(draftKey)
+            .then((draft) => {
+                if (!draft || cancelled) return;
+                reset(draft.value, { keepDefaultValues: true });
+                setRestoredAt(draft.savedAt);
+            })
+            .catch((error) => console.error('Error loading house draft:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [draftKey, reset]);
+
+    useEffect(() => {
+        const subscription = watch((values) => {
+            clearTimeout(draftTimeout.current);
+            draftTimeout.current = setTimeout(() => {
+                saveDraft(draftKey, values).catch((error) => console.error('Error saving house draft:', error));
+            }, DRAFT_DELAY);
+        });
+        return () => {
+            subscription.unsubscribe();
+            clearTimeout(draftTimeout.current);
+        };
+    }, [draftKey, watch]);
+
+    const discardDraft = () => {
+        clearTimeout(draftTimeout.current);
+        setRestoredAt(null);
+        return deleteDraft(draftKey).catch((error) => console.error('Error deleting house draft:', error));
+    };
+
+    const submit: SubmitHandler<HouseFormData> = async (data) => {
+        try {
+            await onSubmit(data);
+            discardDraft();
+        } catch (error) {
+            console.error('Error saving house:', error);
+            setServerErrors(error, setError, HOUSE_FIELDS, errorMessage);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit(submit)} className="space-y-6" noValidate>
+            <FormError message={errors.root?.server?.message} />
+            {restoredAt && (
+                <div className="p-3 bg-indigo-50 dark:bg-indigo-900/40 border border-indigo-200 dark:border-indigo-800 text-indigo-700 dark:text-indigo-300 rounded-lg text-sm flex justify-between items-center">
+                    <span>Restored your unsaved changes from {formatRelativeTime(restoredAt)}.</span>
+                    <button
+                        type="button"
+                        onClick={() => {
+                            // Resetting counts as an edit, so drop the draft only afterwards
+                            reset(defaultValues);
+                            discardDraft();
+                        }}
+                        className="ml-3 font-medium hover:underline"
+                    >
+                        Discard
+                    </button>
+                </div>
+            )}
+            <div>
+                <label htmlFor={`${idPrefix}-name`} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Name</label>
+                <input
+                    id={`${idPrefix}-name`}
+                    type="text"
+                    {...register('name')}
+                    className={inputClass}
+                    placeholder="Enter house name"
+                />
+                {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name.message}</p>}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {DIMENSION_FIELDS.map(({ name, label, step }) => (
+                    <div key={name}>
+                        <label htmlFor={`${idPrefix}-${name}`} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">{label}</label>
+                        <input
+                            id={`${idPrefix}-${name}`}
+                            type="number"
+                            step={step}
+                            min={0}
+                            // The height limits depend on the number of floors
+                            {...register(name, { valueAsNumber: true, deps: name === 'floors' ? ['height'] : undefined })}
+                            className={inputClass}
+                        />
+                        {errors[name] && <p className="text-red-500 text-xs mt-1">{errors[name]?.message}</p>}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-end space-x-3">
+                <button
+                    type="button"
+                    onClick={() => {
+                        discardDraft();
+                        onCancel();
+                    }}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition duration-150 ease-in-out"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className={`px-4 py-2 rounded-md text-white transition duration-150 ease-in-out ${isSubmitting ? 'bg-gray-400' : 'bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500'}`}
+                >
+                    {isSubmitting ? submittingLabel : submitLabel}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { SurfaceKind } from '../types/design';
+import { MATERIAL_CATEGORIES, MATERIAL_LIBRARY } from '../utils/materials';
+import { getMaterialPreview } from '../utils/textures';
+
+interface MaterialPickerProps {
+    surfaceKind: SurfaceKind | null; // Null until a surface is picked in the scene
+    surfaceLabel: string;
+    materialId: string | null;
+    onChange: (materialId: string | null) => void;
+    onClose: () => void;
+}
+
+export default function MaterialPicker({ surfaceKind, surfaceLabel, materialId, onChange, onClose }: MaterialPickerProps) {
+    const previews = useMemo(
+        () => Object.fromEntries(MATERIAL_LIBRARY.map((material) => [material.id, getMaterialPreview(material)])),
+        []
+    );
+
+    const materials = MATERIAL_LIBRARY.filter((material) => surfaceKind && material.surfaces.includes(surfaceKind));
+
+    return (
+        <div className="bg-white/95 dark:bg-gray-800/95 rounded-lg shadow-md p-3 w-64 text-sm space-y-3 max-h-[60vh] overflow-y-auto">
+            <div className="flex items-start justify-between">
+                <div>
+                    <p className="font-medium text-gray-800 dark:text-gray-100">Materials</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{surfaceKind ? surfaceLabel : 'Click a wall, floor or ceiling to paint it'}</p>
+                </div>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close materials">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {surfaceKind && (
+                <>
+                    {MATERIAL_CATEGORIES.map(({ value, label }) => {
+                        const options = materials.filter((material) => material.category === value);
+                        if (options.length === 0) return null;
+                        return (
+                            <div key={value}>
+                                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {options.map((material) => (
+                                        <button
+                                            key={material.id}
+                                            onClick={() => onChange(material.id)}
+                                            title={material.name}
+                                            aria-label={material.name}
+                                            className={`h-10 rounded-md border-2 bg-cover ${material.id === materialId ? 'border-indigo-600' : 'border-transparent hover:border-gray-300'}`}
+                                            style={{ backgroundImage: `url(${previews[material.id]})` }}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <button
+                        onClick={() => onChange(null)}
+                        disabled={!materialId}
+                        className="w-full px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                        Reset to default
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import { getMentionQuery } from '../utils/mentions';
+
+interface MentionInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    people: string[]; // Emails that can be @mentioned
+    onSubmit: () => void; // Ctrl+Enter
+    placeholder?: string;
+    autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+// Comment box suggesting the house's people after "@"
+export default function MentionInput({ value, onChange, people, onSubmit, placeholder, autoFocus }: MentionInputProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [query, setQuery] = useState<string | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+    const suggestions = query === null
+        ? []
+        : people.filter((email) => email.toLowerCase().includes(query.toLowerCase())).slice(0, MAX_SUGGESTIONS);
+
+    const updateQuery = (textarea: HTMLTextAreaElement) => {
+        setQuery(getMentionQuery(textarea.value.slice(0, textarea.selectionStart)));
+        setHighlighted(0);
+    };
+
+    const insertMention = (email: string) => {
+        const textarea = textareaRef.current;
+        if (!textarea || query === null) return;
+
+        const caret = textarea.selectionStart;
+        const start = caret - query.length - 1; // Including the "@"
+        const next = `${value.slice(0, start)}@${email} ${value.slice(caret)}`;
+        onChange(next);
+        setQuery(null);
+        // Put the caret after the mention once React has rendered the new value
+        requestAnimationFrame(() => {
+            const position = start + email.length + 2;
+            textarea.focus();
+            textarea.setSelectionRange(position, position);
+        });
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                setHighlighted((index) => (index + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (event.key === 'Enter' || event.key === 'Tab') {
+                event.preventDefault();
+                insertMention(suggestions[highlighted]);
+                return;
+            }
+            if (event.key === 'Escape') {
+                setQuery(null);
+                return;
+            }
+        }
+        if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            onSubmit();
+        }
+    };
+
+    return (
+        <div className="relative">
+            <textarea
+                ref={textareaRef}
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    updateQuery(e.target);
+                }}
+                onClick={(e) => updateQuery(e.currentTarget)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setQuery(null)}
+                rows={2}
+                autoFocus={autoFocus}
+                placeholder={placeholder}
+                className="w-full px-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900 resize-none"
+            />
+            {suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 z-20 mt-1 bg-white dark:bg-gray-800 rounded-md shadow-lg ring-1 ring-black ring-opacity-5 text-sm">
+                    {suggestions.map((email, index) => (
+                        <li key={email}>
+                            <button
+                                type="button"
+                                // Before the blur, which would close the list
+                                onMouseDown={(event) => {
+                                    event.preventDefault();
+                                    insertMention(email);
+                                }}
+                                className={`w-full text-left px-3 py-2 truncate ${index === highlighted ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                            >
+                                @{email}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
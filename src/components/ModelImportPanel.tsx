@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { Upload, Box as BoxIcon, Trash2 } from 'lucide-react';
+import { Object3D } from 'three';
+import api from '../Api';
+import { useToast } from '../hooks/useToast';
+import { Attachment } from '../types/attachment';
+import { MODEL_EXTENSIONS, fitModelToHouse, isModelFile, parseModel } from '../utils/importModel';
+
+interface ModelImportPanelProps {
+    houseId: string;
+    width: number;
+    length: number;
+    height: number;
+    onModelChange: (model: Object3D | null) => void;
+    readOnly?: boolean; // Show the stored model without import and remove controls
+}
+
+export default function ModelImportPanel({ houseId, width, length, height, onModelChange, readOnly = false }: ModelImportPanelProps) {
+    const [attachment, setAttachment] = useState<Attachment | null>(null);
+    const [fitToHouse, setFitToHouse] = useState(true);
+    const [status, setStatus] = useState<string | null>(null);
+    const [rawModel, setRawModel] = useState<Object3D | null>(null);
+    const { showError, showToast } = useToast();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // The model as parsed is kept, and wrapped again whenever the fit or the house's dimensions change
+    useEffect(() => {
+        onModelChange(rawModel && fitModelToHouse(rawModel, width, length, height, fitToHouse));
+    }, [rawModel, width, length, height, fitToHouse, onModelChange]);
+
+    // Reload the model stored with the house, if any
+    useEffect(() => {
+        const fetchStoredModel = async () => {
+            try {
+                const response = await api.get<Attachment[]>(`/houses/${houseId}/attachments/`, { params: { kind: 'model' } });
+                const latest = response.data[response.data.length - 1];
+                if (!latest) return;
+
+                setStatus(`Loading ${latest.name}...`);
+                const file = await api.get<ArrayBuffer>(latest.file, { responseType: 'arraybuffer' });
+                setRawModel(await parseModel(file.data, latest.name));
+                setAttachment(latest);
+                setStatus(null);
+            } catch (error) {
+                console.error('Error loading stored model:', error);
+                setStatus(null);
+                showError(error, 'Failed to load the stored model.');
+            }
+        };
+
+        fetchStoredModel();
+    }, [houseId, showError]);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        if (!isModelFile(file.name)) {
+            showToast(`Unsupported file. Please choose a ${MODEL_EXTENSIONS.join(', ')} file.`, 'error');
+            return;
+        }
+
+        try {
+            setStatus(`Reading ${file.name}...`);
+            setRawModel(await parseModel(await file.arrayBuffer(), file.name));
+        } catch (error) {
+            console.error('Error parsing model:', error);
+            setStatus(null);
+            showToast('This file could not be read as a 3D model.', 'error');
+            return;
+        }
+
+        try {
+            setStatus(`Uploading ${file.name}...`);
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('kind', 'model');
+            const response = await api.post<Attachment>(`/houses/${houseId}/attachments/`, formData);
+            setAttachment(response.data);
+            setStatus(null);
+        } catch (error) {
+            console.error('Error uploading model:', error);
+            setStatus(null);
+            showError(error, 'The model is previewed but could not be saved with the house.');
+        }
+    };
+
+    const handleRemove = async () => {
+        if (attachment) {
+            try {
+                await api.delete(`/houses/${houseId}/attachments/${attachment.id}/`);
+            } catch (error) {
+                console.error('Error deleting model:', error);
+                showError(error, 'Error removing the model. Please try again.');
+                return;
+            }
+        }
+        setAttachment(null);
+        setRawModel(null);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                    <BoxIcon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    <span>Imported model</span>
+                </div>
+                {!readOnly && (
+                    <div className="flex items-center space-x-2">
+                        <input
+                            ref={inputRef}
+                            type="file"
+                            accept={MODEL_EXTENSIONS.join(',')}
+                            onChange={handleFileChange}
+                            className="hidden"
+                        />
+                        <button
+                            onClick={() => inputRef.current?.click()}
+                            className="px-3 py-2 bg-amber-400 text-white rounded-md hover:bg-amber-500 transition-colors duration-200 flex items-center space-x-2"
+                        >
+                            <Upload className="w-4 h-4" />
+                            <span>Import GLB / glTF / OBJ</span>
+                        </button>
+                        {(attachment || rawModel) && (
+                            <button
+                                onClick={handleRemove}
+                                className="p-2 text-pink-500 hover:text-pink-700"
+                                aria-label="Remove imported model"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+            <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-200">
+                <input type="checkbox" checked={fitToHouse} onChange={(e) => setFitToHouse(e.target.checked)} />
+                <span>Scale to fit the house ({width} × {length} × {height}m)</span>
+            </label>
+            {attachment && <p className="text-gray-500 dark:text-gray-400">Stored with the house as {attachment.name}</p>}
+            {status && <p className="text-gray-500 dark:text-gray-400">{status}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { Share2, Paperclip, MessageSquare, AtSign, Calculator } from 'lucide-react';
+import { AppNotification, NotificationType } from '../types/notification';
+import { formatRelativeTime } from '../utils/dates';
+
+const ICONS: Record<NotificationType, typeof Share2> = {
+    house_shared: Share2,
+    attachment_uploaded: Paperclip,
+    comment_added: MessageSquare,
+    mentioned: AtSign,
+    estimate_ready: Calculator,
+};
+
+interface NotificationItemProps {
+    notification: AppNotification;
+    onOpen: (notification: AppNotification) => void;
+}
+
+export default function NotificationItem({ notification, onOpen }: NotificationItemProps) {
+    const Icon = ICONS[notification.type] ?? MessageSquare;
+
+    return (
+        <button
+            onClick={() => onOpen(notification)}
+            className={`w-full text-left px-4 py-3 flex items-start space-x-3 hover:bg-gray-50 dark:hover:bg-gray-700 ${notification.read ? '' : 'bg-indigo-50/60 dark:bg-indigo-900/30'}`}
+        >
+            <Icon className="w-5 h-5 mt-0.5 text-indigo-600 dark:text-indigo-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+                <p className={`text-sm text-gray-900 dark:text-gray-100 ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-300">{notification.message}</p>
+                <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(notification.created_at)}</p>
+            </div>
+            {!notification.read && <span className="w-2 h-2 mt-2 rounded-full bg-indigo-600 flex-shrink-0" aria-label="Unread" />}
+        </button>
+    );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import NotificationItem from './NotificationItem';
+import { useNotifications } from '../hooks/useNotifications';
+import { AppNotification } from '../types/notification';
+
+// Bell button of the navigation bar, with the latest notifications in a dropdown
+export default function NotificationsMenu() {
+    const { recent, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        }
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleOpen = async (notification: AppNotification) => {
+        setIsOpen(false);
+        if (notification.link) navigate(notification.link);
+        if (!notification.read) {
+            try {
+                await markAsRead(notification.id);
+            } catch (error) {
+                console.error('Error marking notification as read:', error);
+            }
+        }
+    };
+
+    const handleMarkAllAsRead = async () => {
+        try {
+            await markAllAsRead();
+        } catch (error) {
+            console.error('Error marking notifications as read:', error);
+        }
+    };
+
+    return (
+        <div className="ml-3 relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="relative p-1 rounded-full text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+            >
+                <Bell className="h-6 w-6" />
+                {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-pink-500 text-white text-xs font-semibold flex items-center justify-center">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+            {isOpen && (
+                <div className="origin-top-right absolute right-0 mt-2 w-80 rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 z-20">
+                    <div className="px-4 py-3 flex items-center justify-between border-b border-gray-100 dark:border-gray-700">
+                        <p className="font-semibold text-gray-800 dark:text-gray-100">Notifications</p>
+                        <button
+                            onClick={handleMarkAllAsRead}
+                            disabled={unreadCount === 0}
+                            className="flex items-center space-x-1 text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <CheckCheck className="w-4 h-4" />
+                            <span>Mark all as read</span>
+                        </button>
+                    </div>
+                    <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                        {recent.length === 0 ? (
+                            <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">You have no notifications yet.</p>
+                        ) : (
+                            recent.map((notification) => (
+                                <NotificationItem key={notification.id} notification={notification} onOpen={handleOpen} />
+                            ))
+                        )}
+                    </div>
+                    <Link
+                        to="/notifications"
+                        onClick={() => setIsOpen(false)}
+                        className="block px-4 py-2 text-center text-sm text-indigo-600 dark:text-indigo-400 hover:bg-gray-50 dark:hover:bg-gray-700 border-t border-gray-100 dark:border-gray-700"
+                    >
+                        View all notifications
+                    </Link>
+                </div>
+            )}
+        </div>
+    );
+}
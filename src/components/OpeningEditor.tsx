@@ -0,0 +1,59 @@
+import { Trash2 } from 'lucide-react';
+import { Opening } from '../types/design';
+import { Wall, getWallLength } from '../utils/openings';
+
+interface OpeningEditorProps {
+    opening: Opening;
+    wall: Wall | null;
+    onChange: (opening: Opening) => void;
+    onDelete: (id: string) => void;
+}
+
+type NumericField = 'offset' | 'width' | 'height' | 'sillHeight';
+
+const FIELDS: { field: NumericField; label: string }[] = [
+    { field: 'offset', label: 'Offset' },
+    { field: 'width', label: 'Width' },
+    { field: 'height', label: 'Height' },
+    { field: 'sillHeight', label: 'Sill height' },
+];
+
+export default function OpeningEditor({ opening, wall, onChange, onDelete }: OpeningEditorProps) {
+    return (
+        <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded-md space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="font-medium text-gray-800 dark:text-gray-100">{opening.type === 'door' ? 'Door' : 'Window'}</p>
+                    {wall && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {wall.label} ({getWallLength(wall).toFixed(2)}m)
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={() => onDelete(opening.id)}
+                    className="p-1 text-pink-500 hover:text-pink-700"
+                    aria-label={`Delete ${opening.type}`}
+                >
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                {FIELDS.map(({ field, label }) => (
+                    <label key={field} className="block">
+                        <span className="block text-gray-600 dark:text-gray-300 mb-1">{label} (m)</span>
+                        <input
+                            type="number"
+                            step={0.05}
+                            min={0}
+                            value={opening[field]}
+                            disabled={field === 'sillHeight' && opening.type === 'door'}
+                            onChange={(e) => onChange({ ...opening, [field]: Number(e.target.value) })}
+                            className="w-full px-2 py-1 border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 bg-white dark:bg-gray-800 disabled:opacity-50"
+                        />
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+    page: number;
+    pageCount: number;
+    count: number;
+    itemName?: string; // Singular name of what is listed, for the total
+    onPageChange: (page: number) => void;
+}
+
+const buttonClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1';
+
+export default function Pagination({ page, pageCount, count, itemName = 'house', onPageChange }: PaginationProps) {
+    return (
+        <div className="mt-8 flex items-center justify-between text-sm">
+            <p className="text-gray-600 dark:text-gray-300">
+                {count} {count === 1 ? itemName : `${itemName}s`}
+            </p>
+            {pageCount > 1 && (
+                <div className="flex items-center space-x-3">
+                    <button onClick={() => onPageChange(page - 1)} disabled={page <= 1} className={buttonClass}>
+                        <ChevronLeft className="w-4 h-4" />
+                        <span>Previous</span>
+                    </button>
+                    <span className="text-gray-600 dark:text-gray-300">Page {page} of {pageCount}</span>
+                    <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount} className={buttonClass}>
+                        <span>Next</span>
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,51 @@
+import { Collaborator, ConnectionStatus } from '../types/collaboration';
+import { getCollaboratorColor, getInitials } from '../utils/presence';
+
+interface PresenceAvatarsProps {
+    collaborators: Collaborator[]; // Everyone else with the house open
+    status: ConnectionStatus;
+}
+
+const MAX_AVATARS = 4;
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+    connecting: 'Connecting...',
+    connected: 'Live',
+    offline: 'Reconnecting...',
+};
+
+// Who else is looking at the house, in the colors of their cursors
+export default function PresenceAvatars({ collaborators, status }: PresenceAvatarsProps) {
+    const hidden = collaborators.length - MAX_AVATARS;
+
+    return (
+        <div className="bg-white/90 dark:bg-gray-800/90 rounded-lg shadow-md px-2 py-1 flex items-center space-x-2 text-xs">
+            <span className="flex items-center space-x-1 text-gray-600 dark:text-gray-300" title={status === 'connected' ? 'Edits show up for everyone as they are made' : undefined}>
+                <span className={`w-2 h-2 rounded-full ${status === 'connected' ? 'bg-green-500' : 'bg-amber-400 animate-pulse'}`} />
+                <span>{STATUS_LABELS[status]}</span>
+            </span>
+            {collaborators.length > 0 && (
+                <div className="flex -space-x-2">
+                    {collaborators.slice(0, MAX_AVATARS).map((user) => (
+                        <span
+                            key={user.clientId}
+                            title={user.email}
+                            className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center font-semibold text-white"
+                            style={{ backgroundColor: getCollaboratorColor(user.clientId) }}
+                        >
+                            {getInitials(user.email)}
+                        </span>
+                    ))}
+                    {hidden > 0 && (
+                        <span
+                            title={collaborators.slice(MAX_AVATARS).map((user) => user.email).join(', ')}
+                            className="w-7 h-7 rounded-full border-2 border-white bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 flex items-center justify-center font-semibold"
+                        >
+                            +{hidden}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
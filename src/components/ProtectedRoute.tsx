@@ -1,5 +1,10 @@
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { Lock } from 'lucide-react';
 import { useAuth } from '../context/AuthContext.tsx';
+import { useQuery } from '../hooks/useQuery';
+import { fetchHouse, findCachedHouse, houseKeys } from '../services/houses';
+import DashboardLayout from './layouts/DashboardLayout';
 
 export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     const { isAuthenticated, loading } = useAuth();
@@ -14,3 +19,47 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
     return <>{children}</>;
 }
+
+// Shares the page's query, so the house is only fetched once
+function HouseAccessGuard({ children }: { children: React.ReactNode }) {
+    const { id } = useParams();
+    const { error } = useQuery(
+        id ? houseKeys.detail(id) : null,
+        () => fetchHouse(id!),
+        { placeholderData: () => findCachedHouse(Number(id)) }
+    );
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+    // Other errors are left to the page, which can still show a cached copy
+    if (status !== 403 && status !== 404) {
+        return <>{children}</>;
+    }
+
+    return (
+        <DashboardLayout>
+            <div className="max-w-md mx-auto px-4 py-16 text-center">
+                <Lock className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+                    {status === 403 ? 'You do not have access to this house' : 'This house could not be found'}
+                </h1>
+                <p className="text-gray-600 dark:text-gray-300 mb-6">
+                    {status === 403
+                        ? 'It may no longer be shared with you. Ask its owner to invite you again.'
+                        : 'It may have been deleted.'}
+                </p>
+                <Link to="/dashboard" className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors duration-150">
+                    Back to Dashboard
+                </Link>
+            </div>
+        </DashboardLayout>
+    );
+}
+
+// A page of one house: on top of signing in, the user must be allowed to see the house
+export function HouseRoute({ children }: { children: React.ReactNode }) {
+    return (
+        <ProtectedRoute>
+            <HouseAccessGuard>{children}</HouseAccessGuard>
+        </ProtectedRoute>
+    );
+}
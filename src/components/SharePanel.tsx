@@ -0,0 +1,137 @@
+import { useEffect } from 'react';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trash2, Users } from 'lucide-react';
+import FormError from './FormError';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { INVITE_FIELDS, InviteFormData, inviteSchema } from '../schemas/shareSchema';
+import { fetchMembers, inviteMember, memberKeys, removeMember, updateMemberRole } from '../services/members';
+import { HouseMember, InvitedRole } from '../types/sharing';
+import { setServerErrors } from '../utils/formErrors';
+import { INVITED_ROLES, ROLE_LABELS } from '../utils/permissions';
+
+interface SharePanelProps {
+    houseId: number;
+    houseName: string;
+}
+
+const inputClass = 'px-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900';
+
+// Lets the owner invite collaborators by email and change or revoke their roles
+export default function SharePanel({ houseId, houseName }: SharePanelProps) {
+    const { data: members, error: membersError, isLoading } = useQuery(memberKeys.list(houseId), () => fetchMembers(houseId));
+    const { showToast, showError } = useToast();
+    const { register, handleSubmit, setError, reset, formState: { errors, isSubmitting } } = useForm<InviteFormData>({
+        resolver: zodResolver(inviteSchema),
+        defaultValues: { email: '', role: 'viewer' },
+    });
+
+    useEffect(() => {
+        if (membersError) {
+            console.error('Error fetching house members:', membersError);
+            showError(membersError, 'Failed to load who this house is shared with.');
+        }
+    }, [membersError, showError]);
+
+    const submit: SubmitHandler<InviteFormData> = async ({ email, role }) => {
+        try {
+            await inviteMember(houseId, email, role);
+            reset({ email: '', role });
+            showToast(`Invited ${email} to "${houseName}".`, 'success');
+        } catch (error) {
+            console.error('Error inviting member:', error);
+            setServerErrors(error, setError, INVITE_FIELDS, 'Error sending the invitation. Please try again.');
+        }
+    };
+
+    const handleRoleChange = async (member: HouseMember, role: InvitedRole) => {
+        try {
+            await updateMemberRole(houseId, member.id, role);
+        } catch (error) {
+            console.error('Error changing member role:', error);
+            showError(error, `Could not change the role of ${member.email}. Please try again.`);
+        }
+    };
+
+    const handleRemove = async (member: HouseMember) => {
+        if (!window.confirm(`Stop sharing "${houseName}" with ${member.email}?`)) {
+            return;
+        }
+
+        try {
+            await removeMember(houseId, member.id);
+        } catch (error) {
+            console.error('Error removing member:', error);
+            showError(error, `Could not remove ${member.email}. Please try again.`);
+        }
+    };
+
+    return (
+        <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4 text-sm">
+            <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                <Users className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                <span>Sharing</span>
+            </div>
+
+            <form onSubmit={handleSubmit(submit)} className="space-y-2" noValidate>
+                <FormError message={errors.root?.server?.message} />
+                <div className="flex flex-wrap gap-2">
+                    <input
+                        type="email"
+                        {...register('email')}
+                        className={`${inputClass} flex-1 min-w-0`}
+                        placeholder="Email address"
+                        aria-label="Email address"
+                    />
+                    <select {...register('role')} className={inputClass} aria-label="Role">
+                        {INVITED_ROLES.map(({ value, label, description }) => (
+                            <option key={value} value={value} title={description}>{label}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className={`px-4 py-2 rounded-md text-white transition duration-150 ease-in-out ${isSubmitting ? 'bg-gray-400' : 'bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500'}`}
+                    >
+                        {isSubmitting ? 'Inviting...' : 'Invite'}
+                    </button>
+                </div>
+                {errors.email && <p className="text-red-500 text-xs">{errors.email.message}</p>}
+                {errors.role && <p className="text-red-500 text-xs">{errors.role.message}</p>}
+            </form>
+
+            {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading...</p>}
+            {members?.length === 0 && <p className="text-gray-500 dark:text-gray-400">Only you can see this house.</p>}
+            {members && members.length > 0 && (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {members.map((member) => (
+                        <li key={member.id} className="py-2 flex items-center space-x-3">
+                            <div className="flex-1 min-w-0">
+                                <p className="truncate text-gray-800 dark:text-gray-100">{member.email}</p>
+                                {!member.accepted && <p className="text-xs text-gray-500 dark:text-gray-400">Invitation pending</p>}
+                            </div>
+                            <select
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member, e.target.value as InvitedRole)}
+                                className={inputClass}
+                                aria-label={`Role of ${member.email}`}
+                            >
+                                {INVITED_ROLES.map(({ value }) => (
+                                    <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => handleRemove(member)}
+                                className="p-1 text-pink-500 hover:text-pink-700"
+                                aria-label={`Stop sharing with ${member.email}`}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSync } from '../hooks/useSync';
+import { useToast } from '../hooks/useToast';
+import { PendingMutation } from '../types/sync';
+import { formatRelativeTime } from '../utils/dates';
+
+const describeMutation = (mutation: PendingMutation) => {
+    switch (mutation.type) {
+        case 'createHouse':
+            return `Create "${mutation.label}"`;
+        case 'updateHouse':
+            return `Edit "${mutation.label}"`;
+        case 'deleteHouse':
+            return `Delete "${mutation.label}"`;
+        case 'saveDesign':
+            return `Design of "${mutation.label}"`;
+    }
+};
+
+// Connection and sync state of the navigation bar, with the changes waiting to be sent
+export default function SyncStatus() {
+    const { online, syncing, pending, conflicts, resolveConflict } = useSync();
+    const { showError } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        }
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleResolve = async (mutation: PendingMutation, keep: 'mine' | 'server') => {
+        try {
+            await resolveConflict(mutation.id, keep);
+        } catch (error) {
+            console.error('Error resolving conflict:', error);
+            showError(error, `Could not apply your change to "${mutation.label}". Please try again.`);
+        }
+    };
+
+    let status = { icon: Cloud, label: 'Online', className: 'text-green-700 dark:text-green-400 bg-green-100 dark:bg-green-900/40' };
+    if (conflicts.length > 0) {
+        status = { icon: AlertTriangle, label: `${conflicts.length} ${conflicts.length === 1 ? 'conflict' : 'conflicts'}`, className: 'text-red-700 dark:text-red-400 bg-red-100 dark:bg-red-900/40' };
+    } else if (syncing) {
+        status = { icon: RefreshCw, label: `Syncing ${pending.length}`, className: 'text-indigo-700 dark:text-indigo-300 bg-indigo-100 dark:bg-indigo-900/60' };
+    } else if (!online) {
+        status = { icon: CloudOff, label: pending.length > 0 ? `Offline · ${pending.length} pending` : 'Offline', className: 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/40' };
+    } else if (pending.length > 0) {
+        status = { icon: RefreshCw, label: `${pending.length} pending`, className: 'text-indigo-700 dark:text-indigo-300 bg-indigo-100 dark:bg-indigo-900/60' };
+    }
+    const Icon = status.icon;
+
+    return (
+        <div className="ml-3 relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1 ${status.className}`}
+                aria-label={`Connection: ${status.label}`}
+            >
+                <Icon className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+                <span className="hidden md:inline">{status.label}</span>
+            </button>
+            {isOpen && (
+                <div className="origin-top-right absolute right-0 mt-2 w-80 z-20 rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 text-sm">
+                    <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+                        <p className="font-semibold text-gray-800 dark:text-gray-100">{online ? 'Connected' : 'Working offline'}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {pending.length === 0
+                                ? 'All your changes are saved.'
+                                : 'These changes are kept on this device and sent once the server can be reached.'}
+                        </p>
+                    </div>
+                    {pending.length > 0 && (
+                        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                            {pending.map((mutation) => (
+                                <li key={mutation.id} className="px-4 py-2">
+                                    <div className="flex justify-between text-gray-700 dark:text-gray-200">
+                                        <span className="truncate">{describeMutation(mutation)}</span>
+                                        <span className="text-xs text-gray-400 ml-2 flex-shrink-0">{formatRelativeTime(mutation.createdAt)}</span>
+                                    </div>
+                                    {mutation.conflict && (
+                                        <div className="mt-1">
+                                            <p className="text-xs text-red-600">This house was changed by someone else while you were offline.</p>
+                                            <div className="flex space-x-2 mt-1">
+                                                <button
+                                                    onClick={() => handleResolve(mutation, 'mine')}
+                                                    className="px-2 py-1 text-xs bg-gray-800 dark:bg-gray-600 text-white rounded-md hover:bg-gray-700 dark:hover:bg-gray-500"
+                                                >
+                                                    Keep mine
+                                                </button>
+                                                <button
+                                                    onClick={() => handleResolve(mutation, 'server')}
+                                                    className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                                                >
+                                                    Keep theirs
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { FilePlus, LayoutTemplate, Trash2 } from 'lucide-react';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { deleteTemplate, fetchTemplates, templateKeys } from '../services/templates';
+import { HouseTemplate } from '../types/template';
+import { BUILT_IN_TEMPLATES } from '../utils/templates';
+
+interface TemplateGalleryProps {
+    selectedId: HouseTemplate['id'] | null; // Null for a blank house
+    onSelect: (template: HouseTemplate | null) => void;
+}
+
+const cardClass = (selected: boolean) =>
+    `w-full h-full text-left p-3 rounded-lg border-2 transition-colors duration-150 ${selected ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40' : 'border-gray-200 dark:border-gray-700 hover:border-indigo-300'}`;
+
+const TemplateCard = ({ template, selected, onSelect }: { template: HouseTemplate; selected: boolean; onSelect: () => void }) => {
+    const { width, length, floors } = template.house;
+    return (
+        <button type="button" onClick={onSelect} className={cardClass(selected)}>
+            <p className="font-semibold text-gray-900 dark:text-gray-100 truncate">{template.name}</p>
+            <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">{template.description}</p>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {width} × {length} m · {floors} {floors === 1 ? 'floor' : 'floors'} · {template.design.rooms.length} rooms
+            </p>
+        </button>
+    );
+};
+
+// What a new house starts from: nothing, one of the built-in layouts or one of the user's templates
+export default function TemplateGallery({ selectedId, onSelect }: TemplateGalleryProps) {
+    const { data: templates, error: templatesError } = useQuery(templateKeys.list, fetchTemplates);
+    const { showError } = useToast();
+
+    useEffect(() => {
+        if (templatesError) {
+            console.error('Error fetching templates:', templatesError);
+            showError(templatesError, 'Failed to load your templates.');
+        }
+    }, [templatesError, showError]);
+
+    const handleDelete = async (template: HouseTemplate) => {
+        if (!window.confirm(`Delete the template "${template.name}"? Houses started from it are kept.`)) {
+            return;
+        }
+
+        try {
+            await deleteTemplate(template.id);
+            if (template.id === selectedId) onSelect(null);
+        } catch (error) {
+            console.error('Error deleting template:', error);
+            showError(error, 'Error deleting the template. Please try again.');
+        }
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div>
+                <h3 className="mb-2 font-medium text-gray-700 dark:text-gray-200 flex items-center space-x-2">
+                    <LayoutTemplate className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                    <span>Start from</span>
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <button type="button" onClick={() => onSelect(null)} className={cardClass(selectedId === null)}>
+                        <p className="font-semibold text-gray-900 dark:text-gray-100 flex items-center space-x-1">
+                            <FilePlus className="w-4 h-4" />
+                            <span>Blank house</span>
+                        </p>
+                        <p className="text-xs text-gray-600 dark:text-gray-300">Your default dimensions, no rooms</p>
+                    </button>
+                    {BUILT_IN_TEMPLATES.map((template) => (
+                        <TemplateCard
+                            key={template.id}
+                            template={template}
+                            selected={template.id === selectedId}
+                            onSelect={() => onSelect(template)}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {templates && templates.length > 0 && (
+                <div>
+                    <h3 className="mb-2 font-medium text-gray-700 dark:text-gray-200">My templates</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                        {templates.map((template) => (
+                            <div key={template.id} className="relative">
+                                <TemplateCard
+                                    template={template}
+                                    selected={template.id === selectedId}
+                                    onSelect={() => onSelect(template)}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(template)}
+                                    className="absolute top-2 right-2 p-1 text-pink-500 hover:text-pink-700"
+                                    aria-label={`Delete the template ${template.name}`}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { X } from 'lucide-react';
+import House3DModel from './House3DModel';
+import { useSettings } from '../hooks/useSettings';
+import { VersionSide } from '../types/version';
+import { EntryChange, diffVersions, isEmptyDiff } from '../utils/versionDiff';
+
+interface VersionCompareProps {
+    before: VersionSide;
+    after: VersionSide;
+    onClose: () => void;
+}
+
+const KIND_CLASSES: Record<EntryChange['kind'], string> = {
+    added: 'text-green-700 dark:text-green-400',
+    removed: 'text-pink-600 line-through',
+    changed: 'text-amber-700 dark:text-amber-300',
+};
+
+const KIND_SIGNS: Record<EntryChange['kind'], string> = {
+    added: '+',
+    removed: '−',
+    changed: '~',
+};
+
+const EntryList = ({ title, changes }: { title: string; changes: EntryChange[] }) => {
+    if (changes.length === 0) return null;
+
+    return (
+        <div>
+            <h4 className="font-medium text-gray-800 dark:text-gray-100">{title}</h4>
+            <ul className="mt-1 space-y-0.5">
+                {changes.map((change) => (
+                    <li key={change.id} className={KIND_CLASSES[change.kind]}>
+                        {KIND_SIGNS[change.kind]} {change.label}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const SideModel = ({ side }: { side: VersionSide }) => {
+    const { settings } = useSettings();
+
+    return (
+        <div className="flex-1 min-w-0">
+            <p className="mb-1 font-medium text-gray-800 dark:text-gray-100 truncate">{side.label}</p>
+            <div className="h-[50vh] border-2 border-gray-800">
+                <House3DModel
+                    width={side.house.width}
+                    height={side.house.height}
+                    length={side.house.length}
+                    floors={side.house.floors}
+                    rooms={side.design.rooms}
+                    openings={side.design.openings}
+                    furniture={side.design.furniture}
+                    surfaceMaterials={side.design.surfaceMaterials}
+                    unitSystem={settings.unitSystem}
+                />
+            </div>
+        </div>
+    );
+};
+
+// What changed between two versions, listed and side by side in 3D
+export default function VersionCompare({ before, after, onClose }: VersionCompareProps) {
+    const diff = diffVersions(before, after);
+
+    return (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4 bg-white dark:bg-gray-800">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                    {before.label} → {after.label}
+                </h3>
+                <button onClick={onClose} className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100" aria-label="Close comparison">
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            {isEmptyDiff(diff) ? (
+                <p className="text-gray-500 dark:text-gray-400">No differences.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {diff.dimensions.length > 0 && (
+                        <div>
+                            <h4 className="font-medium text-gray-800 dark:text-gray-100">House</h4>
+                            <ul className="mt-1 space-y-0.5 text-amber-700 dark:text-amber-300">
+                                {diff.dimensions.map((change) => (
+                                    <li key={change.label}>{change.label}: {change.before} → {change.after}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <EntryList title="Rooms" changes={diff.rooms} />
+                    <EntryList title="Furniture" changes={diff.furniture} />
+                    <EntryList title="Doors and windows" changes={diff.openings} />
+                    {(diff.materials > 0 || diff.estimate) && (
+                        <div>
+                            <h4 className="font-medium text-gray-800 dark:text-gray-100">Finishes</h4>
+                            <ul className="mt-1 space-y-0.5 text-amber-700 dark:text-amber-300">
+                                {diff.materials > 0 && <li>{diff.materials} {diff.materials === 1 ? 'surface' : 'surfaces'} repainted</li>}
+                                {diff.estimate && <li>Cost estimate settings</li>}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-4">
+                <SideModel side={before} />
+                <SideModel side={after} />
+            </div>
+        </div>
+    );
+}
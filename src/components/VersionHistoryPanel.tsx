@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Bookmark, Clock, History, RotateCcw } from 'lucide-react';
+import FormError from './FormError';
+import VersionCompare from './VersionCompare';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { SNAPSHOT_FIELDS, SnapshotFormData, snapshotSchema } from '../schemas/versionSchema';
+import { fetchQuery } from '../services/queryCache';
+import { createSnapshot, fetchVersion, fetchVersions, versionKeys } from '../services/versions';
+import { HouseVersion, HouseVersionSummary, VersionSide } from '../types/version';
+import { formatRelativeTime } from '../utils/dates';
+import { setServerErrors } from '../utils/formErrors';
+
+interface VersionHistoryPanelProps {
+    houseId: number;
+    current: VersionSide; // The house as it is on screen, unsaved edits included
+    onRestore?: (version: HouseVersion) => void; // Omit to hide the restore buttons and the snapshot form, e.g. for viewers
+}
+
+// Two versions picked at most: with one, it is compared with the current house
+const MAX_COMPARED = 2;
+
+const inputClass = 'px-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900';
+
+const getVersionLabel = (version: HouseVersionSummary) =>
+    version.name ?? `Saved ${new Date(version.created_at).toLocaleString()}`;
+
+const toSide = (version: HouseVersion): VersionSide => ({ label: getVersionLabel(version), house: version.house, design: version.design });
+
+// Timeline of the house: automatic versions from every save, and named snapshots
+export default function VersionHistoryPanel({ houseId, current, onRestore }: VersionHistoryPanelProps) {
+    const { data: versions, error: versionsError, isLoading } = useQuery(versionKeys.list(houseId), () => fetchVersions(houseId));
+    const [snapshotsOnly, setSnapshotsOnly] = useState(false);
+    const [compared, setCompared] = useState<number[]>([]);
+    const [restoringId, setRestoringId] = useState<number | null>(null);
+    const { showError } = useToast();
+    const { register, handleSubmit, setError, reset, formState: { errors, isSubmitting } } = useForm<SnapshotFormData>({
+        resolver: zodResolver(snapshotSchema),
+        defaultValues: { name: '' },
+    });
+
+    // Oldest first, so the comparison reads from before to after
+    const comparedIds = (versions ?? []).filter((version) => compared.includes(version.id)).map((version) => version.id).reverse();
+    const { data: first, error: firstError } = useQuery(
+        comparedIds[0] !== undefined ? versionKeys.detail(houseId, comparedIds[0]) : null,
+        () => fetchVersion(houseId, comparedIds[0])
+    );
+    const { data: second, error: secondError } = useQuery(
+        comparedIds[1] !== undefined ? versionKeys.detail(houseId, comparedIds[1]) : null,
+        () => fetchVersion(houseId, comparedIds[1])
+    );
+    const compareError = firstError ?? secondError;
+    const shown = (versions ?? []).filter((version) => !snapshotsOnly || version.name !== null);
+
+    useEffect(() => {
+        if (versionsError) {
+            console.error('Error fetching versions:', versionsError);
+            showError(versionsError, 'Failed to load the version history.');
+        }
+    }, [versionsError, showError]);
+
+    useEffect(() => {
+        if (compareError) {
+            console.error('Error fetching version:', compareError);
+            showError(compareError, 'Failed to load the version to compare.');
+        }
+    }, [compareError, showError]);
+
+    const submit: SubmitHandler<SnapshotFormData> = async ({ name }) => {
+        try {
+            await createSnapshot(houseId, name, current.house, current.design);
+            reset({ name: '' });
+        } catch (error) {
+            console.error('Error saving snapshot:', error);
+            setServerErrors(error, setError, SNAPSHOT_FIELDS, 'Error saving the snapshot. Please try again.');
+        }
+    };
+
+    const toggleCompared = (id: number) => {
+        setCompared((ids) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id].slice(-MAX_COMPARED)));
+    };
+
+    const handleRestore = async (version: HouseVersionSummary) => {
+        if (!onRestore || !window.confirm(`Restore "${getVersionLabel(version)}"? You can undo this until you leave the page.`)) {
+            return;
+        }
+
+        try {
+            setRestoringId(version.id);
+            onRestore(await fetchQuery(versionKeys.detail(houseId, version.id), () => fetchVersion(houseId, version.id)));
+        } catch (error) {
+            console.error('Error fetching version:', error);
+            showError(error, 'Failed to restore the version. Please try again.');
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const comparison = comparedIds.length === 1 && first
+        ? { before: toSide(first), after: current }
+        : comparedIds.length === 2 && first && second
+            ? { before: toSide(first), after: toSide(second) }
+            : null;
+
+    return (
+        <div className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 font-semibold text-gray-800 dark:text-gray-100">
+                    <History className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                    <span>Version history</span>
+                </div>
+                <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-200">
+                    <input type="checkbox" checked={snapshotsOnly} onChange={(e) => setSnapshotsOnly(e.target.checked)} />
+                    <span>Snapshots only</span>
+                </label>
+            </div>
+
+            {onRestore && (
+                <form onSubmit={handleSubmit(submit)} className="space-y-2" noValidate>
+                    <FormError message={errors.root?.server?.message} />
+                    <div className="flex flex-wrap gap-2">
+                        <input
+                            {...register('name')}
+                            className={`${inputClass} flex-1 min-w-0`}
+                            placeholder="Snapshot name, e.g. Client review 1"
+                            aria-label="Snapshot name"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className={`px-4 py-2 rounded-md text-white transition duration-150 ease-in-out ${isSubmitting ? 'bg-gray-400' : 'bg-gray-800 dark:bg-gray-600 hover:bg-gray-700 dark:hover:bg-gray-500'}`}
+                        >
+                            {isSubmitting ? 'Saving...' : 'Save snapshot'}
+                        </button>
+                    </div>
+                    {errors.name && <p className="text-red-500 text-xs">{errors.name.message}</p>}
+                </form>
+            )}
+
+            {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading...</p>}
+            {versions && shown.length === 0 && (
+                <p className="text-gray-500 dark:text-gray-400">{snapshotsOnly ? 'No snapshots yet.' : 'No versions yet. One is recorded every time the house is saved.'}</p>
+            )}
+            {shown.length > 0 && (
+                <>
+                    <p className="text-gray-500 dark:text-gray-400">Tick one version to compare it with the current house, or two to compare them.</p>
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-72 overflow-y-auto">
+                        {shown.map((version) => (
+                            <li key={version.id} className="py-2 flex items-center space-x-3">
+                                <input
+                                    type="checkbox"
+                                    checked={compared.includes(version.id)}
+                                    onChange={() => toggleCompared(version.id)}
+                                    aria-label={`Compare ${getVersionLabel(version)}`}
+                                />
+                                {version.name ? (
+                                    <Bookmark className="w-4 h-4 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+                                ) : (
+                                    <Clock className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <p className={`truncate ${version.name ? 'font-medium text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-200'}`}>
+                                        {version.name ?? 'Saved'}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                        {version.created_by}, {formatRelativeTime(version.created_at)}
+                                    </p>
+                                </div>
+                                {onRestore && (
+                                    <button
+                                        onClick={() => handleRestore(version)}
+                                        disabled={restoringId !== null}
+                                        className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-800 flex items-center space-x-1 disabled:opacity-50"
+                                    >
+                                        <RotateCcw className="w-4 h-4" />
+                                        <span>{restoringId === version.id ? 'Restoring...' : 'Restore'}</span>
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+
+            {comparedIds.length > 0 && !comparison && !compareError && <p className="text-gray-500 dark:text-gray-400">Loading the comparison...</p>}
+            {comparison && <VersionCompare {...comparison} onClose={() => setCompared([])} />}
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+import { Ruler, MoveHorizontal, Square, Palette, MapPin } from 'lucide-react';
+import { UnitSystem } from '../utils/units';
+
+interface ViewerToolbarProps {
+    measuring: boolean;
+    showDimensions: boolean;
+    showAreas: boolean;
+    unitSystem: UnitSystem;
+    painting?: boolean;
+    onMeasuringChange: (measuring: boolean) => void;
+    onShowDimensionsChange: (show: boolean) => void;
+    onShowAreasChange: (show: boolean) => void;
+    onUnitSystemChange: (system: UnitSystem) => void;
+    onPaintingChange?: (painting: boolean) => void; // Omit to hide the material tool
+    pinning?: boolean;
+    onPinningChange?: (pinning: boolean) => void; // Omit to hide the comment pin tool
+}
+
+const toggleClass = (active: boolean) =>
+    `p-2 rounded-md transition-colors duration-150 ${active ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-indigo-50 dark:hover:bg-indigo-900/40'}`;
+
+export default function ViewerToolbar({
+    measuring, showDimensions, showAreas, unitSystem, painting = false, pinning = false,
+    onMeasuringChange, onShowDimensionsChange, onShowAreasChange, onUnitSystemChange, onPaintingChange, onPinningChange,
+}: ViewerToolbarProps) {
+    return (
+        <div className="bg-white/90 dark:bg-gray-800/90 rounded-lg shadow-md p-2 flex items-center space-x-1 text-sm">
+            <button onClick={() => onMeasuringChange(!measuring)} className={toggleClass(measuring)} title="Measure distance">
+                <Ruler className="w-4 h-4" />
+            </button>
+            <button onClick={() => onShowDimensionsChange(!showDimensions)} className={toggleClass(showDimensions)} title="Wall dimensions">
+                <MoveHorizontal className="w-4 h-4" />
+            </button>
+            <button onClick={() => onShowAreasChange(!showAreas)} className={toggleClass(showAreas)} title="Floor and room areas">
+                <Square className="w-4 h-4" />
+            </button>
+            {onPaintingChange && (
+                <button onClick={() => onPaintingChange(!painting)} className={toggleClass(painting)} title="Materials">
+                    <Palette className="w-4 h-4" />
+                </button>
+            )}
+            {onPinningChange && (
+                <button onClick={() => onPinningChange(!pinning)} className={toggleClass(pinning)} title="Pin a comment">
+                    <MapPin className="w-4 h-4" />
+                </button>
+            )}
+            <button
+                onClick={() => onUnitSystemChange(unitSystem === 'metric' ? 'imperial' : 'metric')}
+                className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 font-medium"
+                title="Switch units"
+            >
+                {unitSystem === 'metric' ? 'm' : 'ft'}
+            </button>
+        </div>
+    );
+}
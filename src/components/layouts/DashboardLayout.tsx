@@ -1,13 +1,47 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { Search, Bell, User, Menu } from 'lucide-react';
+import NotificationsMenu from '../NotificationsMenu';
+import SyncStatus from '../SyncStatus';
 import { useAuth } from '../../context/AuthContext';
+import { useNotifications } from '../../hooks/useNotifications';
+import { useDebounce } from '../../hooks/useDebounce';
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
     const { logout } = useAuth();
+    const { unreadCount } = useNotifications();
     const userMenuRef = useRef<HTMLDivElement>(null);
+    const navigate = useNavigate();
+    const location = useLocation();
+    const [searchParams] = useSearchParams();
+    const searchParam = searchParams.get('search') ?? '';
+    const [search, setSearch] = useState(searchParam);
+    const debouncedSearch = useDebounce(search.trim(), 300);
+    const lastSearch = useRef(debouncedSearch);
+
+    // Follow the URL when it changes on its own, e.g. with the back button
+    useEffect(() => {
+        setSearch(searchParam);
+    }, [searchParam]);
+
+    // Searching from any page shows the matching houses on the dashboard
+    useEffect(() => {
+        // Only a new search term should navigate, not the URL catching up with it
+        if (debouncedSearch === lastSearch.current) return;
+        lastSearch.current = debouncedSearch;
+        if (debouncedSearch === searchParam) return;
+
+        const params = new URLSearchParams(location.pathname === '/dashboard' ? location.search : '');
+        if (debouncedSearch) {
+            params.set('search', debouncedSearch);
+        } else {
+            params.delete('search');
+        }
+        params.delete('page');
+        navigate({ pathname: '/dashboard', search: params.toString() }, { replace: location.pathname === '/dashboard' });
+    }, [debouncedSearch, searchParam, location.pathname, location.search, navigate]);
 
     useEffect(() => {
         function handleClickOutside(event: MouseEvent) {
@@ -23,13 +57,13 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     }, []);
 
     return (
-        <div className="min-h-screen bg-gray-100">
-            <nav className="bg-white shadow-md">
+        <div className="min-h-screen bg-gray-100 dark:bg-gray-900 dark:text-gray-100">
+            <nav className="bg-white dark:bg-gray-800 shadow-md">
                 <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
                     <div className="flex justify-between h-16">
                         <div className="flex">
                             <div className="flex-shrink-0 flex items-center">
-                                <Link to="/dashboard" className="text-xl font-bold text-gray-800">
+                                <Link to="/dashboard" className="text-xl font-bold text-gray-800 dark:text-gray-100">
                                     Interior Design
                                 </Link>
                             </div>
@@ -37,31 +71,31 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                         <div className="hidden sm:ml-6 sm:flex sm:items-center">
                             <div className="relative">
                                 <input
-                                    type="text"
-                                    placeholder="Search..."
-                                    className="bg-gray-100 text-gray-900 rounded-full pl-10 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white"
+                                    type="search"
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search houses..."
+                                    aria-label="Search houses"
+                                    className="bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-full pl-10 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white dark:focus:bg-gray-700"
                                 />
                                 <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
                             </div>
-                            <div className="ml-3 relative">
-                                <button className="p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-                                    <Bell className="h-6 w-6" />
-                                </button>
-                            </div>
+                            <SyncStatus />
+                            <NotificationsMenu />
                             <div className="ml-3 relative" ref={userMenuRef}>
                                 <button
                                     onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
-                                    className="p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                    className="p-1 rounded-full text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                                 >
                                     <User className="h-6 w-6" />
                                 </button>
                                 {isUserMenuOpen && (
-                                    <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg py-1 bg-white ring-1 ring-black ring-opacity-5 focus:outline-none">
-                                        <Link to="/profile" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Your Profile</Link>
-                                        <Link to="/settings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Settings</Link>
+                                    <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg py-1 bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 focus:outline-none">
+                                        <Link to="/profile" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700">Your Profile</Link>
+                                        <Link to="/settings" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700">Settings</Link>
                                         <button
                                             onClick={() => logout()}
-                                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
                                         >
                                             Logout
                                         </button>
@@ -70,9 +104,10 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                             </div>
                         </div>
                         <div className="-mr-2 flex items-center sm:hidden">
+                            <SyncStatus />
                             <button
                                 onClick={() => setIsMenuOpen(!isMenuOpen)}
-                                className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+                                className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
                             >
                                 <Menu className="block h-6 w-6" aria-hidden="true" />
                             </button>
@@ -84,23 +119,29 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                     <div className="sm:hidden">
                         <div className="pt-2 pb-3 space-y-1">
                             <input
-                                type="text"
-                                placeholder="Search..."
-                                className="block w-full bg-gray-100 text-gray-900 rounded-md pl-10 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white mx-4"
+                                type="search"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search houses..."
+                                aria-label="Search houses"
+                                className="block w-full bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md pl-10 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white dark:focus:bg-gray-700 mx-4"
                             />
-                            <button className="flex items-center w-full px-4 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
+                            <Link to="/notifications" className="flex items-center w-full px-4 py-2 text-base font-medium text-gray-700 dark:text-gray-200 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-50 dark:hover:bg-gray-700">
                                 <Bell className="mr-3 h-6 w-6 text-gray-400" />
                                 Notifications
-                            </button>
-                            <Link to="/profile" className="block px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 hover:bg-gray-100">
+                                {unreadCount > 0 && (
+                                    <span className="ml-2 px-2 rounded-full bg-pink-500 text-white text-xs font-semibold">{unreadCount}</span>
+                                )}
+                            </Link>
+                            <Link to="/profile" className="block px-4 py-2 text-base font-medium text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700">
                                 Your Profile
                             </Link>
-                            <Link to="/settings" className="block px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 hover:bg-gray-100">
+                            <Link to="/settings" className="block px-4 py-2 text-base font-medium text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700">
                                 Settings
                             </Link>
                             <button
                                 onClick={() => logout()}
-                                className="flex items-center w-full px-4 py-2 text-base font-medium text-gray-500 hover:text-gray-800 hover:bg-gray-100"
+                                className="flex items-center w-full px-4 py-2 text-base font-medium text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700"
                             >
                                 <User className="mr-3 h-6 w-6 text-gray-400" />
                                 Logout
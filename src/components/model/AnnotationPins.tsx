@@ -0,0 +1,42 @@
+import { Html } from '@react-three/drei';
+import { Annotation, ScenePoint } from '../../types/annotation';
+
+interface AnnotationPinsProps {
+    annotations: Annotation[];
+    pending: ScenePoint | null; // Pin placed but not commented yet
+    selectedId: number | null;
+    onSelect: (id: number) => void;
+}
+
+const pinClass = 'w-7 h-7 -translate-y-1/2 rounded-full rounded-bl-none -rotate-45 flex items-center justify-center text-xs font-bold shadow-md border-2 border-white';
+
+// Numbered pins, in the order of the comments panel
+export default function AnnotationPins({ annotations, pending, selectedId, onSelect }: AnnotationPinsProps) {
+    return (
+        <group>
+            {annotations.map((annotation, index) => {
+                const selected = annotation.id === selectedId;
+                const color = annotation.resolved ? 'bg-gray-400 text-white' : selected ? 'bg-indigo-600 text-white' : 'bg-amber-500 text-white';
+                return (
+                    <Html key={annotation.id} position={annotation.position} center zIndexRange={[30, 20]}>
+                        <button
+                            onClick={() => onSelect(annotation.id)}
+                            className={`${pinClass} ${color} ${selected ? 'ring-2 ring-indigo-300' : ''}`}
+                            title={annotation.label}
+                            aria-label={`Comment ${index + 1}: ${annotation.label}`}
+                        >
+                            <span className="rotate-45">{index + 1}</span>
+                        </button>
+                    </Html>
+                );
+            })}
+            {pending && (
+                <Html position={pending} center zIndexRange={[30, 20]}>
+                    <div className={`${pinClass} bg-indigo-600 text-white animate-pulse`}>
+                        <span className="rotate-45">+</span>
+                    </div>
+                </Html>
+            )}
+        </group>
+    );
+}
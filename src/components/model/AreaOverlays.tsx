@@ -0,0 +1,40 @@
+import { Html } from '@react-three/drei';
+import { Room } from '../../types/design';
+import { FloorLevel, getFloorLabel } from '../../utils/floors';
+import { polygonArea, polygonCentroid } from '../../utils/geometry';
+import { toSceneXZ } from '../../utils/scene';
+import { UnitSystem, formatArea } from '../../utils/units';
+
+interface AreaOverlaysProps {
+    rooms: Room[];
+    level: FloorLevel;
+    width: number;
+    length: number;
+    unitSystem: UnitSystem;
+}
+
+// Floor area at the corner of the slab and each room's area at its center
+export default function AreaOverlays({ rooms, level, width, length, unitSystem }: AreaOverlaysProps) {
+    const y = level.elevation + 0.1;
+
+    return (
+        <group>
+            <Html position={[-width / 2, y, -length / 2]} zIndexRange={[10, 0]}>
+                <div className="px-2 py-1 rounded bg-gray-800/90 text-xs text-white whitespace-nowrap">
+                    {getFloorLabel(level.index)}: {formatArea(width * length, unitSystem)}
+                </div>
+            </Html>
+            {rooms.map((room) => {
+                const [x, z] = toSceneXZ(polygonCentroid(room.points), width, length);
+                return (
+                    <Html key={room.id} position={[x, y, z]} center zIndexRange={[10, 0]}>
+                        <div className="px-2 py-1 rounded bg-indigo-600/90 text-xs text-white text-center whitespace-nowrap">
+                            <div className="font-medium">{room.name}</div>
+                            <div>{formatArea(polygonArea(room.points), unitSystem)}</div>
+                        </div>
+                    </Html>
+                );
+            })}
+        </group>
+    );
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Vector3 } from 'three';
+import { ScenePoint } from '../../types/annotation';
+
+// A new object for every request, so asking for the same point again moves the camera back to it
+export interface FocusRequest {
+    position: ScenePoint;
+}
+
+interface CameraFocusProps {
+    request: FocusRequest | null;
+}
+
+// What is used of the default controls, i.e. the OrbitControls marked makeDefault
+interface Controls {
+    target: Vector3;
+    update: () => void;
+}
+
+// Distance from which a focused point is looked at
+const FOCUS_DISTANCE = 4;
+// How fast the camera eases towards the point, higher is faster
+const EASING = 6;
+
+// Glides the camera towards the requested point, keeping the side it looks from
+export default function CameraFocus({ request }: CameraFocusProps) {
+    const camera = useThree((state) => state.camera);
+    const controls = useThree((state) => state.controls) as unknown as Controls | null;
+    const goal = useRef<{ position: Vector3; target: Vector3 } | null>(null);
+
+    useEffect(() => {
+        if (!request || !controls) return;
+
+        const target = new Vector3(...request.position);
+        const direction = camera.position.clone().sub(controls.target).normalize();
+        goal.current = { target, position: target.clone().add(direction.multiplyScalar(FOCUS_DISTANCE)) };
+    }, [request, camera, controls]);
+
+    useFrame((_, delta) => {
+        const current = goal.current;
+        if (!current || !controls) return;
+
+        const step = 1 - Math.exp(-delta * EASING);
+        camera.position.lerp(current.position, step);
+        controls.target.lerp(current.target, step);
+        controls.update();
+        if (camera.position.distanceTo(current.position) < 0.01) goal.current = null;
+    });
+
+    return null;
+}
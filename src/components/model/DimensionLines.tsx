@@ -0,0 +1,63 @@
+import { Html, Line } from '@react-three/drei';
+import { Point, Room } from '../../types/design';
+import { FloorLevel } from '../../utils/floors';
+import { polygonCentroid } from '../../utils/geometry';
+import { Wall, getFloorWalls, getWallKey, getWallLength, mergeFloorWalls } from '../../utils/openings';
+import { toSceneXZ } from '../../utils/scene';
+import { UnitSystem, formatLength } from '../../utils/units';
+
+interface DimensionLinesProps {
+    rooms: Room[];
+    level: FloorLevel;
+    width: number;
+    length: number;
+    unitSystem: UnitSystem;
+}
+
+const DIMENSION_OFFSET = 0.35;
+
+// Shifts the wall sideways, away from the reference point (outside the house, or inside a room)
+const offsetWall = (wall: Wall, reference: Point, offset: number): [Point, Point] => {
+    const wallLength = getWallLength(wall) || 1;
+    let [nx, nz] = [-(wall.end[1] - wall.start[1]) / wallLength, (wall.end[0] - wall.start[0]) / wallLength];
+    const [mx, mz] = [(wall.start[0] + wall.end[0]) / 2, (wall.start[1] + wall.end[1]) / 2];
+    if ((reference[0] - mx) * nx + (reference[1] - mz) * nz > 0) {
+        [nx, nz] = [-nx, -nz];
+    }
+    return [
+        [wall.start[0] + nx * offset, wall.start[1] + nz * offset],
+        [wall.end[0] + nx * offset, wall.end[1] + nz * offset],
+    ];
+};
+
+// A labelled dimension line next to every wall of a floor, shared walls measured once
+export default function DimensionLines({ rooms, level, width, length, unitSystem }: DimensionLinesProps) {
+    const center: Point = [width / 2, length / 2];
+    const y = level.elevation + 0.05;
+
+    return (
+        <group>
+            {mergeFloorWalls(getFloorWalls(level.index, rooms, width, length)).map((wall) => {
+                const { ref } = wall;
+                const room = ref.kind === 'room' ? rooms.find((item) => item.id === ref.roomId) : undefined;
+                // Exterior dimensions go outside the house, room dimensions inside the room
+                const [start, end] = room
+                    ? offsetWall(wall, polygonCentroid(room.points), -DIMENSION_OFFSET)
+                    : offsetWall(wall, center, DIMENSION_OFFSET);
+                const [x1, z1] = toSceneXZ(start, width, length);
+                const [x2, z2] = toSceneXZ(end, width, length);
+
+                return (
+                    <group key={`${getWallKey(ref)}-${wall.from}`}>
+                        <Line points={[[x1, y, z1], [x2, y, z2]]} color={room ? '#4f46e5' : '#111827'} lineWidth={1} />
+                        <Html position={[(x1 + x2) / 2, y, (z1 + z2) / 2]} center zIndexRange={[10, 0]}>
+                            <span className="px-1 rounded bg-white/90 dark:bg-gray-800/90 text-xs text-gray-800 dark:text-gray-100 whitespace-nowrap shadow-sm">
+                                {formatLength(getWallLength(wall), unitSystem)}
+                            </span>
+                        </Html>
+                    </group>
+                );
+            })}
+        </group>
+    );
+}
@@ -0,0 +1,112 @@
+import { Box, Edges } from '@react-three/drei';
+import { Opening, Room, SurfaceRef } from '../../types/design';
+import { FloorLevel } from '../../utils/floors';
+import { LibraryMaterial, getSurfaceKey, getSurfaceMaterial } from '../../utils/materials';
+import { WallPiece, getFloorWalls, getPieceOpenings, getWallKey, getWallLength, getWallPanels, mergeFloorWalls } from '../../utils/openings';
+import { toSceneXZ } from '../../utils/scene';
+import SurfaceMaterial from './SurfaceMaterial';
+
+export const WALL_THICKNESS = 0.1;
+
+interface FloorWallsProps {
+    rooms: Room[];
+    openings: Opening[];
+    level: FloorLevel;
+    width: number;
+    length: number;
+    opacity: number;
+    surfaceMaterials: Record<string, string>;
+    selectedSurfaceKey: string | null;
+}
+
+interface WallMeshProps {
+    wall: WallPiece;
+    openings: Opening[];
+    level: FloorLevel;
+    width: number;
+    length: number;
+    color: number;
+    opacity: number;
+    surface: SurfaceRef;
+    material: LibraryMaterial | null;
+    selected: boolean;
+}
+
+// A straight wall built from solid panels around its doors and windows
+const WallMesh = ({ wall, openings, level, width, length, color, opacity, surface, material, selected }: WallMeshProps) => {
+    const [x1, z1] = toSceneXZ(wall.start, width, length);
+    const [x2, z2] = toSceneXZ(wall.end, width, length);
+    const wallLength = getWallLength(wall);
+
+    return (
+        <group position={[x1, level.elevation, z1]} rotation={[0, -Math.atan2(z2 - z1, x2 - x1), 0]}>
+            {getWallPanels(wallLength, level.height, openings).map((panel, i) => (
+                <Box
+                    key={i}
+                    args={[panel.u1 - panel.u0, panel.v1 - panel.v0, WALL_THICKNESS]}
+                    position={[(panel.u0 + panel.u1) / 2, (panel.v0 + panel.v1) / 2, 0]}
+                    userData={{ surface }}
+                >
+                    <SurfaceMaterial
+                        material={material}
+                        width={panel.u1 - panel.u0}
+                        height={panel.v1 - panel.v0}
+                        originX={wall.from + panel.u0}
+                        originY={panel.v0}
+                        color={color}
+                        opacity={opacity}
+                        selected={selected}
+                    />
+                </Box>
+            ))}
+
+            {/* Frames, with glass in the windows */}
+            {openings.map((opening) => (
+                <Box
+                    key={opening.id}
+                    args={[opening.width, opening.height, WALL_THICKNESS / 2]}
+                    raycast={() => null}
+                    position={[opening.offset + opening.width / 2, opening.sillHeight + opening.height / 2, 0]}
+                >
+                    <meshStandardMaterial
+                        color={opening.type === 'window' ? 0x93c5fd : 0xffffff}
+                        transparent={true}
+                        opacity={opening.type === 'window' ? 0.35 * opacity : 0}
+                        depthWrite={false}
+                    />
+                    <Edges color={opening.type === 'window' ? 0x1d4ed8 : 0x92400e} />
+                </Box>
+            ))}
+        </group>
+    );
+};
+
+// Exterior and room walls of one floor, with their openings cut out. Shared walls are built once.
+export default function FloorWalls({ rooms, openings, level, width, length, opacity, surfaceMaterials, selectedSurfaceKey }: FloorWallsProps) {
+    const walls = getFloorWalls(level.index, rooms, width, length);
+
+    return (
+        <group>
+            {mergeFloorWalls(walls).map((wall) => {
+                const isExterior = wall.ref.kind === 'exterior';
+                const surface: SurfaceRef = { kind: 'wall', floor: level.index, wall: wall.ref };
+                return (
+                    <WallMesh
+                        key={`${getWallKey(wall.ref)}-${wall.from}`}
+                        wall={wall}
+                        openings={getPieceOpenings(wall, walls, openings)}
+                        level={level}
+                        width={width}
+                        length={length}
+                        color={isExterior ? 0xe7e5e4 : 0xf5f5f4}
+                        surface={surface}
+                        material={getSurfaceMaterial(surfaceMaterials, surface)}
+                        selected={getSurfaceKey(surface) === selectedSurfaceKey}
+                        // Exterior walls stay see-through so the rooms remain visible
+                        opacity={isExterior ? opacity * 0.35 : opacity}
+                    />
+                );
+            })}
+        </group>
+    );
+}
@@ -0,0 +1,107 @@
+import { useRef } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Box, Edges } from '@react-three/drei';
+import { Plane, Vector3 } from 'three';
+import { FurnitureItem, Point } from '../../types/design';
+import { FloorLevel } from '../../utils/floors';
+import { clampToHouse } from '../../utils/furniture';
+import { fromSceneXZ, toSceneXZ } from '../../utils/scene';
+
+interface FurnitureLayerProps {
+    furniture: FurnitureItem[];
+    level: FloorLevel;
+    width: number;
+    length: number;
+    opacity: number;
+    selectedId: string | null;
+    collidingIds: Set<string>;
+    editable: boolean;
+    onSelect: (id: string | null) => void;
+    onChange: (item: FurnitureItem) => void;
+    onDraggingChange: (dragging: boolean) => void;
+}
+
+interface DragState {
+    item: FurnitureItem;
+    offset: Point; // From the grab point to the piece's center, in plan coordinates
+}
+
+// Furniture standing on one floor; pieces are dragged along the floor plane
+export default function FurnitureLayer({
+    furniture, level, width, length, opacity, selectedId, collidingIds, editable, onSelect, onChange, onDraggingChange,
+}: FurnitureLayerProps) {
+    const dragRef = useRef<DragState | null>(null);
+    const floorPlane = new Plane(new Vector3(0, 1, 0), -level.elevation);
+
+    // Where the pointer ray meets this floor, in plan coordinates
+    const getPlanPoint = (event: ThreeEvent<PointerEvent>): Point | null => {
+        const hit = event.ray.intersectPlane(floorPlane, new Vector3());
+        return hit ? fromSceneXZ([hit.x, hit.z], width, length) : null;
+    };
+
+    const handlePointerDown = (event: ThreeEvent<PointerEvent>, item: FurnitureItem) => {
+        event.stopPropagation();
+        onSelect(item.id);
+
+        const point = getPlanPoint(event);
+        if (!editable || !point) return;
+
+        (event.target as Element).setPointerCapture(event.pointerId);
+        dragRef.current = { item, offset: [item.position[0] - point[0], item.position[1] - point[1]] };
+        onDraggingChange(true);
+    };
+
+    const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+        const drag = dragRef.current;
+        const point = drag && getPlanPoint(event);
+        if (!drag || !point) return;
+
+        event.stopPropagation();
+        const moved = clampToHouse(
+            { ...drag.item, position: [point[0] + drag.offset[0], point[1] + drag.offset[1]] },
+            width,
+            length
+        );
+        drag.item = moved;
+        onChange(moved);
+    };
+
+    const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+        if (!dragRef.current) return;
+
+        (event.target as Element).releasePointerCapture(event.pointerId);
+        dragRef.current = null;
+        onDraggingChange(false);
+    };
+
+    return (
+        <group>
+            {furniture.map((item) => {
+                const [x, z] = toSceneXZ(item.position, width, length);
+                const colliding = collidingIds.has(item.id);
+
+                return (
+                    <Box
+                        key={item.id}
+                        args={[item.width, item.height, item.depth]}
+                        position={[x, level.elevation + item.height / 2, z]}
+                        rotation={[0, -item.rotation, 0]}
+                        userData={{ furniture: item.name }}
+                        onPointerDown={(event) => handlePointerDown(event, item)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    >
+                        <meshStandardMaterial
+                            color={colliding ? '#f87171' : item.color}
+                            transparent={opacity < 1}
+                            opacity={opacity}
+                        />
+                        {(item.id === selectedId || colliding) && (
+                            <Edges color={colliding ? '#dc2626' : '#4f46e5'} />
+                        )}
+                    </Box>
+                );
+            })}
+        </group>
+    );
+}
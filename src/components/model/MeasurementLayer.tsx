@@ -0,0 +1,33 @@
+import { Html, Line, Sphere } from '@react-three/drei';
+import { Vector3 } from 'three';
+import { UnitSystem, formatLength } from '../../utils/units';
+
+interface MeasurementLayerProps {
+    points: Vector3[];
+    unitSystem: UnitSystem;
+}
+
+// Markers for the picked points and, once both are picked, the distance between them
+export default function MeasurementLayer({ points, unitSystem }: MeasurementLayerProps) {
+    const [start, end] = points;
+
+    return (
+        <group>
+            {points.map((point, i) => (
+                <Sphere key={i} args={[0.06, 16, 16]} position={point}>
+                    <meshBasicMaterial color="#f59e0b" />
+                </Sphere>
+            ))}
+            {start && end && (
+                <>
+                    <Line points={[start, end]} color="#f59e0b" lineWidth={2} dashed dashSize={0.1} gapSize={0.05} />
+                    <Html position={start.clone().add(end).multiplyScalar(0.5)} center zIndexRange={[20, 10]}>
+                        <span className="px-2 py-1 rounded bg-amber-500 text-xs font-semibold text-white whitespace-nowrap shadow">
+                            {formatLength(start.distanceTo(end), unitSystem)}
+                        </span>
+                    </Html>
+                </>
+            )}
+        </group>
+    );
+}
@@ -0,0 +1,34 @@
+import { Html } from '@react-three/drei';
+import { RemoteCursor } from '../../types/collaboration';
+import { getCollaboratorColor } from '../../utils/presence';
+
+interface PresenceCursorsProps {
+    cursors: RemoteCursor[];
+}
+
+// Where the others' pointers are on the model, each with its owner's email
+export default function PresenceCursors({ cursors }: PresenceCursorsProps) {
+    return (
+        <group>
+            {cursors.map(({ user, position }) => {
+                const color = getCollaboratorColor(user.clientId);
+                return (
+                    <group key={user.clientId} position={position}>
+                        <mesh raycast={() => null}>
+                            <sphereGeometry args={[0.08, 16, 16]} />
+                            <meshBasicMaterial color={color} />
+                        </mesh>
+                        <Html zIndexRange={[20, 10]} style={{ pointerEvents: 'none' }}>
+                            <span
+                                className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium text-white whitespace-nowrap shadow"
+                                style={{ backgroundColor: color }}
+                            >
+                                {user.email}
+                            </span>
+                        </Html>
+                    </group>
+                );
+            })}
+        </group>
+    );
+}
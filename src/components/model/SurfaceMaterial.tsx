@@ -0,0 +1,40 @@
+import { useEffect, useMemo } from 'react';
+import { LibraryMaterial } from '../../utils/materials';
+import { createSurfaceTexture } from '../../utils/textures';
+
+interface SurfaceMaterialProps {
+    material: LibraryMaterial | null; // Null keeps the surface's default look
+    width: number;  // Size of the surface in meters, so textures tile at their real scale
+    height: number;
+    originX?: number; // Position of this piece within the whole surface, in meters
+    originY?: number;
+    color: number | string; // Color of the surface without a material
+    tint?: number | null;   // Overrides the color, e.g. for the highlighted floor
+    opacity: number;
+    selected?: boolean;
+}
+
+// Standard material of a wall, floor or ceiling, textured from the material library
+export default function SurfaceMaterial({ material, width, height, originX = 0, originY = 0, color, tint = null, opacity, selected = false }: SurfaceMaterialProps) {
+    const texture = useMemo(
+        () => material && createSurfaceTexture(material, width, height, originX, originY),
+        [material, width, height, originX, originY]
+    );
+
+    useEffect(() => () => texture?.dispose(), [texture]);
+
+    return (
+        <meshStandardMaterial
+            // Recreate the material when a texture is added or removed so its shader is recompiled
+            key={texture ? 'textured' : 'plain'}
+            color={tint ?? (texture ? 0xffffff : material?.color ?? color)}
+            map={texture}
+            roughness={material?.roughness ?? 1}
+            emissive={selected ? 0x4f46e5 : 0x000000}
+            emissiveIntensity={selected ? 0.35 : 0}
+            transparent={opacity < 1}
+            opacity={opacity}
+            depthWrite={opacity >= 1}
+        />
+    );
+}
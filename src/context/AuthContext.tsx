@@ -1,9 +1,15 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SESSION_EXPIRED_REASON, setSessionExpiredHandler } from '../Api';
+import { clearOfflineStore } from '../services/offlineStore';
+import { clearQueryCache } from '../services/queryCache';
+import { resetSync } from '../services/syncQueue';
+import { clearEditHistories } from '../hooks/useEditHistory';
 
 interface AuthContextType {
     isAuthenticated: boolean;
     login: (tokens: { access: string; refresh: string }) => void;
-    logout: () => void;
+    logout: () => Promise<void>;
     getAccessToken: () => string | null;
     loading: boolean;
 }
@@ -13,6 +19,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
     const [loading, setLoading] = useState<boolean>(true); // Add a loading state
+    const navigate = useNavigate();
 
     useEffect(() => {
         const token = localStorage.getItem('accessToken');
@@ -28,11 +35,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setIsAuthenticated(true);
     };
 
-    const logout = () => {
+    const logout = useCallback(async () => {
         localStorage.removeItem('accessToken');
         localStorage.removeItem('refreshToken');
+        // The next user must not see this one's houses, undo their edits, get their drafts
+        // or send their offline changes, so the queue is gone before another login can start it
+        clearQueryCache();
+        clearEditHistories();
+        resetSync();
+        try {
+            await clearOfflineStore();
+        } catch (error) {
+            console.error('Error clearing offline data:', error);
+        }
         setIsAuthenticated(false);
-    };
+    }, []);
+
+    // Called by the Api interceptor when the refresh token is rejected or missing
+    useEffect(() => {
+        setSessionExpiredHandler(() => {
+            logout();
+            navigate('/login', { replace: true, state: { reason: SESSION_EXPIRED_REASON } });
+        });
+        return () => setSessionExpiredHandler(null);
+    }, [logout, navigate]);
 
     const getAccessToken = () => localStorage.getItem('accessToken');
 
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { AppNotification } from '../types/notification';
+import { notificationSource } from '../utils/notificationSource';
+import { NotificationsContext } from '../hooks/useNotifications';
+
+const RECENT_COUNT = 8;
+
+export function NotificationsProvider({ children }: { children: ReactNode }) {
+    const { isAuthenticated } = useAuth();
+    const [recent, setRecent] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [page, count] = await Promise.all([
+                notificationSource.list(1, RECENT_COUNT),
+                notificationSource.getUnreadCount(),
+            ]);
+            setRecent(page.results);
+            setUnreadCount(count);
+        } catch (error) {
+            console.error('Error fetching notifications:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            setRecent([]);
+            setUnreadCount(0);
+            return;
+        }
+
+        refresh();
+        return notificationSource.subscribe(refresh);
+    }, [isAuthenticated, refresh]);
+
+    const markAsRead = async (id: string) => {
+        const notification = recent.find((item) => item.id === id);
+        await notificationSource.markAsRead(id);
+        setRecent((current) => current.map((item) => (item.id === id ? { ...item, read: true } : item)));
+        // Notifications older than the menu's list are only known to the server
+        if (!notification) {
+            setUnreadCount(await notificationSource.getUnreadCount());
+        } else if (!notification.read) {
+            setUnreadCount((count) => Math.max(0, count - 1));
+        }
+    };
+
+    const markAllAsRead = async () => {
+        await notificationSource.markAllAsRead();
+        setRecent((current) => current.map((item) => ({ ...item, read: true })));
+        setUnreadCount(0);
+    };
+
+    return (
+        <NotificationsContext.Provider value={{ recent, unreadCount, refresh, markAsRead, markAllAsRead }}>
+            {children}
+        </NotificationsContext.Provider>
+    );
+}
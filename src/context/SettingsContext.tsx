@@ -0,0 +1,68 @@
+import { useState, useEffect, ReactNode } from 'react';
+import api from '../Api';
+import { useAuth } from './AuthContext';
+import { DEFAULT_SETTINGS, Theme, UserSettings } from '../types/user';
+import { SettingsContext } from '../hooks/useSettings';
+
+const SETTINGS_KEY = 'settings';
+
+// Last known settings, so the theme and units apply before the API answers
+const readCachedSettings = (): UserSettings => {
+    try {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+const applyTheme = (theme: Theme) => {
+    const dark = theme === 'dark' || (theme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+    document.documentElement.classList.toggle('dark', dark);
+};
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+    const { isAuthenticated } = useAuth();
+    const [settings, setSettings] = useState<UserSettings>(readCachedSettings);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const fetchSettings = async () => {
+            try {
+                setLoading(true);
+                const response = await api.get<Partial<UserSettings>>('/users/me/settings/');
+                setSettings({ ...DEFAULT_SETTINGS, ...response.data });
+            } catch (error) {
+                console.error('Error fetching settings:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchSettings();
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        applyTheme(settings.theme);
+
+        // Follow the operating system while the theme is set to system
+        if (settings.theme !== 'system') return;
+        const media = window.matchMedia('(prefers-color-scheme: dark)');
+        const handleChange = () => applyTheme('system');
+        media.addEventListener('change', handleChange);
+        return () => media.removeEventListener('change', handleChange);
+    }, [settings]);
+
+    const saveSettings = async (next: UserSettings) => {
+        const response = await api.put<UserSettings>('/users/me/settings/', next);
+        setSettings({ ...DEFAULT_SETTINGS, ...response.data });
+    };
+
+    return (
+        <SettingsContext.Provider value={{ settings, saveSettings, loading }}>
+            {children}
+        </SettingsContext.Provider>
+    );
+}
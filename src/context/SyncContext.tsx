@@ -0,0 +1,30 @@
+import { useEffect, useSyncExternalStore, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { useToast } from '../hooks/useToast';
+import { getSyncState, resolveConflict, setSyncErrorHandler, startSync, subscribeSync } from '../services/syncQueue';
+import { SyncContext } from '../hooks/useSync';
+
+export function SyncProvider({ children }: { children: ReactNode }) {
+    const { isAuthenticated } = useAuth();
+    const { showToast } = useToast();
+    const { online, syncing, pending } = useSyncExternalStore(subscribeSync, getSyncState);
+
+    useEffect(() => {
+        setSyncErrorHandler((message) => showToast(message, 'error', null));
+        return () => setSyncErrorHandler(null);
+    }, [showToast]);
+
+    // Queued changes are sent with the user's token, so only replay them once logged in
+    useEffect(() => {
+        if (!isAuthenticated) return;
+        return startSync();
+    }, [isAuthenticated]);
+
+    const conflicts = pending.filter((mutation) => mutation.conflict);
+
+    return (
+        <SyncContext.Provider value={{ online, syncing, pending, conflicts, resolveConflict }}>
+            {children}
+        </SyncContext.Provider>
+    );
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { CheckCircle2, AlertTriangle, Info, XCircle, X } from 'lucide-react';
+import { getErrorMessage } from '../utils/apiErrors';
+import { ToastContext, ToastSeverity } from '../hooks/useToast';
+
+interface Toast {
+    id: string;
+    message: string;
+    severity: ToastSeverity;
+    duration: number | null; // Milliseconds on screen, null to stay until dismissed
+}
+
+// Further toasts wait until one of the visible ones goes away
+const MAX_VISIBLE = 4;
+
+const DURATIONS: Record<ToastSeverity, number> = {
+    success: 3000,
+    info: 4000,
+    warning: 6000,
+    error: 6000,
+};
+
+const STYLES: Record<ToastSeverity, { className: string; icon: typeof Info }> = {
+    success: { className: 'bg-green-100 border-green-400 text-green-700', icon: CheckCircle2 },
+    error: { className: 'bg-red-100 border-red-400 text-red-700', icon: XCircle },
+    warning: { className: 'bg-amber-100 border-amber-400 text-amber-700', icon: AlertTriangle },
+    info: { className: 'bg-indigo-100 border-indigo-400 text-indigo-700', icon: Info },
+};
+
+const ToastItem = ({ toast, onDismiss }: { toast: Toast; onDismiss: (id: string) => void }) => {
+    const { className, icon: Icon } = STYLES[toast.severity];
+
+    // The timer starts once the toast is on screen, not while it waits in the queue
+    useEffect(() => {
+        if (toast.duration === null) return;
+        const timeout = setTimeout(() => onDismiss(toast.id), toast.duration);
+        return () => clearTimeout(timeout);
+    }, [toast, onDismiss]);
+
+    return (
+        <motion.div
+            layout
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: 40 }}
+            role={toast.severity === 'error' ? 'alert' : 'status'}
+            className={`w-80 p-3 border rounded-lg shadow-md text-sm flex items-start space-x-2 ${className}`}
+        >
+            <Icon className="w-5 h-5 flex-shrink-0" />
+            <span className="flex-1">{toast.message}</span>
+            <button onClick={() => onDismiss(toast.id)} className="opacity-60 hover:opacity-100" aria-label="Dismiss">
+                <X className="w-4 h-4" />
+            </button>
+        </motion.div>
+    );
+};
+
+export function ToastProvider({ children }: { children: ReactNode }) {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+
+    const dismissToast = useCallback((id: string) => {
+        setToasts((current) => current.filter((toast) => toast.id !== id));
+    }, []);
+
+    const showToast = useCallback((message: string, severity: ToastSeverity = 'info', duration?: number | null) => {
+        setToasts((current) => {
+            // The same message twice in a row, e.g. from a failing poll, is shown once
+            if (current.some((toast) => toast.message === message && toast.severity === severity)) {
+                return current;
+            }
+            return [...current, { id: crypto.randomUUID(), message, severity, duration: duration === undefined ? DURATIONS[severity] : duration }];
+        });
+    }, []);
+
+    const showError = useCallback((error: unknown, fallback: string) => {
+        showToast(getErrorMessage(error, fallback), 'error');
+    }, [showToast]);
+
+    return (
+        <ToastContext.Provider value={{ showToast, showError, dismissToast }}>
+            {children}
+            <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end space-y-2" aria-live="polite">
+                <AnimatePresence initial={false}>
+                    {toasts.slice(0, MAX_VISIBLE).map((toast) => (
+                        <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+                    ))}
+                </AnimatePresence>
+                {toasts.length > MAX_VISIBLE && (
+                    <p className="text-xs text-gray-500">{toasts.length - MAX_VISIBLE} more...</p>
+                )}
+            </div>
+        </ToastContext.Provider>
+    );
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CollaborationChannel, collaborationSource } from '../services/collaboration';
+import { ScenePoint } from '../types/annotation';
+import { Collaborator, ConnectionStatus, DesignOp, RemoteCursor, ServerMessage } from '../types/collaboration';
+import { HouseDesign } from '../types/design';
+import { DesignClock, acceptOps, applyDesignOps, diffDesign } from '../utils/designOps';
+
+// Cursor positions are sent at most this often while the pointer moves over the model
+const CURSOR_INTERVAL = 100;
+
+interface CollaborationOptions {
+    ready: boolean; // False while the design loads: edits received meanwhile wait, or loading would drop them
+    updateDesign: (updater: (design: HouseDesign) => HouseDesign) => void;
+    onSaved: (design: HouseDesign, etag: string | null) => void; // A collaborator saved the design
+    onHouseChanged: () => void; // A collaborator changed the house's name or dimensions
+}
+
+// Live editing of a house with everyone else who has it open. Design edits are sent as ops and
+// merged entry by entry (last writer wins, ordered by Lamport timestamps), so every copy ends
+// up the same whatever order the edits arrive in. Newcomers catch up from the others' ops.
+export function useCollaboration(houseId: number | null, options: CollaborationOptions) {
+    const [clientId] = useState(() => crypto.randomUUID());
+    const [status, setStatus] = useState<ConnectionStatus>('connecting');
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]); // Everyone but this tab
+    const [cursorPositions, setCursorPositions] = useState<Record<string, ScenePoint>>({});
+    const channelRef = useRef<CollaborationChannel | null>(null);
+    const clock = useRef<DesignClock>(new Map());
+    const counter = useRef(0);
+    const held = useRef<DesignOp[]>([]);
+    const known = useRef(new Set<string>());
+    const lastCursorAt = useRef(0);
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    const applyRemoteOps = useCallback((ops: DesignOp[]) => {
+        ops.forEach((op) => {
+            counter.current = Math.max(counter.current, op.stamp.counter);
+        });
+        const accepted = acceptOps(clock.current, ops);
+        if (accepted.length > 0) optionsRef.current.updateDesign((design) => applyDesignOps(design, accepted));
+    }, []);
+
+    const handleMessage = useCallback((message: ServerMessage) => {
+        switch (message.type) {
+            case 'presence': {
+                const others = message.users.filter((user) => user.clientId !== clientId);
+                const joined = others.some((user) => !known.current.has(user.clientId));
+                known.current = new Set(others.map((user) => user.clientId));
+                setCollaborators(others);
+                setCursorPositions((positions) =>
+                    Object.fromEntries(Object.entries(positions).filter(([id]) => known.current.has(id)))
+                );
+                // Bring newcomers up to date with the edits made since the design was last loaded
+                if (joined && clock.current.size > 0) {
+                    channelRef.current?.send({ type: 'ops', ops: Array.from(clock.current.values()) });
+                }
+                break;
+            }
+            case 'ops':
+                if (optionsRef.current.ready) {
+                    applyRemoteOps(message.ops);
+                } else {
+                    held.current.push(...message.ops);
+                }
+                break;
+            case 'cursor':
+                setCursorPositions((positions) => {
+                    const next = { ...positions };
+                    if (message.position) {
+                        next[message.from] = message.position;
+                    } else {
+                        delete next[message.from];
+                    }
+                    return next;
+                });
+                break;
+            case 'saved':
+                optionsRef.current.onSaved(message.design, message.etag);
+                break;
+            case 'house_changed':
+                optionsRef.current.onHouseChanged();
+                break;
+        }
+    }, [clientId, applyRemoteOps]);
+
+    useEffect(() => {
+        if (houseId === null) return;
+
+        const channel = collaborationSource.connect(houseId, clientId, {
+            onMessage: handleMessage,
+            onStatusChange: (next) => {
+                // After a reconnect everyone counts as new again, so both sides catch up
+                if (next !== 'connected') known.current = new Set();
+                setStatus(next);
+            },
+        });
+        channelRef.current = channel;
+        return () => {
+            channel.close();
+            channelRef.current = null;
+            clock.current = new Map();
+            held.current = [];
+            known.current = new Set();
+            setCollaborators([]);
+            setCursorPositions({});
+        };
+    }, [houseId, clientId, handleMessage]);
+
+    const { ready } = options;
+    useEffect(() => {
+        if (!ready || held.current.length === 0) return;
+        const ops = held.current;
+        held.current = [];
+        applyRemoteOps(ops);
+    }, [ready, applyRemoteOps]);
+
+    // Sends a local edit, given the design before and after it
+    const broadcastChange = useCallback((before: HouseDesign, after: HouseDesign) => {
+        const changes = diffDesign(before, after);
+        if (changes.length === 0) return;
+
+        counter.current += 1;
+        const stamp = { counter: counter.current, clientId };
+        const ops = acceptOps(clock.current, changes.map((change) => ({ ...change, stamp }) as DesignOp));
+        channelRef.current?.send({ type: 'ops', ops });
+    }, [clientId]);
+
+    const moveCursor = useCallback((position: ScenePoint | null) => {
+        const now = Date.now();
+        if (position && now - lastCursorAt.current < CURSOR_INTERVAL) return;
+        lastCursorAt.current = now;
+        channelRef.current?.send({ type: 'cursor', position });
+    }, []);
+
+    const notifySaved = useCallback((design: HouseDesign, etag: string | null) => {
+        channelRef.current?.send({ type: 'saved', design, etag });
+    }, []);
+
+    const notifyHouseChanged = useCallback(() => {
+        channelRef.current?.send({ type: 'house_changed' });
+    }, []);
+
+    const cursors: RemoteCursor[] = collaborators.flatMap((user) => {
+        const position = cursorPositions[user.clientId];
+        return position ? [{ user, position }] : [];
+    });
+
+    return { status, collaborators, cursors, broadcastChange, moveCursor, notifySaved, notifyHouseChanged };
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditCommand, EditHistory } from '../types/history';
+
+// Older steps are dropped, so the session storage stays well below its quota
+const MAX_STEPS = 100;
+// Edits marked as mergeable within this time of each other become one step, e.g. typing a price
+const MERGE_WINDOW = 1000;
+
+const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+// Session storage keys of the histories start with this, so logging out can drop them all
+export const EDIT_HISTORY_PREFIX = 'history/';
+
+export const clearEditHistories = () => {
+    Object.keys(sessionStorage)
+        .filter((key) => key.startsWith(EDIT_HISTORY_PREFIX))
+        .forEach((key) => sessionStorage.removeItem(key));
+};
+
+// Omit applied to each kind of step, so `before` and `after` keep matching `target`
+type WithoutTime<C> = C extends EditCommand ? Omit<C, 'recordedAt'> : never;
+type NewCommand = WithoutTime<EditCommand>;
+
+interface RecordOptions {
+    merge?: boolean; // Fold into the previous step when it has the same label and was just recorded
+}
+
+const readHistory = (storageKey: string): EditHistory => {
+    try {
+        return { ...EMPTY_HISTORY, ...JSON.parse(sessionStorage.getItem(storageKey) ?? '{}') };
+    } catch {
+        return EMPTY_HISTORY;
+    }
+};
+
+// Undo/redo stacks of the details page. The history lives in the session storage, so it
+// survives reloading the page but not closing the tab. `apply` puts one side of a step back.
+export function useEditHistory(storageKey: string, apply: (command: EditCommand, direction: 'undo' | 'redo') => void | Promise<void>) {
+    const [history, setHistory] = useState<EditHistory>(() => readHistory(storageKey));
+    // Latest stacks, for edits recorded several times before the next render (drags)
+    const historyRef = useRef(history);
+    // Set between the start and the end of a drag, whose moves all land in one step
+    const groupRef = useRef<{ started: boolean } | null>(null);
+    // Set while the current event is handled: one click removing a room and its doors is one step
+    const sameAction = useRef(false);
+    const applying = useRef(false);
+    const applyRef = useRef(apply);
+    useEffect(() => {
+        applyRef.current = apply;
+    });
+
+    const commit = useCallback((next: EditHistory) => {
+        historyRef.current = next;
+        setHistory(next);
+    }, []);
+
+    // Another house keeps its own history
+    useEffect(() => {
+        commit(readHistory(storageKey));
+        groupRef.current = null;
+    }, [storageKey, commit]);
+
+    useEffect(() => {
+        try {
+            sessionStorage.setItem(storageKey, JSON.stringify(history));
+        } catch (error) {
+            console.error('Error saving edit history:', error);
+        }
+    }, [storageKey, history]);
+
+    const record = useCallback((change: NewCommand, { merge = false }: RecordOptions = {}) => {
+        const { past } = historyRef.current;
+        const last = past[past.length - 1];
+        const command = { ...change, recordedAt: Date.now() } as EditCommand;
+        const group = groupRef.current;
+        const joinsLast = last && last.target === command.target && (
+            sameAction.current || group?.started || (merge && last.label === command.label && command.recordedAt - last.recordedAt < MERGE_WINDOW)
+        );
+
+        if (joinsLast) {
+            commit({ past: [...past.slice(0, -1), { ...command, label: last.label, before: last.before } as EditCommand], future: [] });
+        } else {
+            commit({ past: [...past, command].slice(-MAX_STEPS), future: [] });
+        }
+        if (group) group.started = true;
+        if (!sameAction.current) {
+            sameAction.current = true;
+            queueMicrotask(() => {
+                sameAction.current = false;
+            });
+        }
+    }, [commit]);
+
+    const beginGroup = useCallback(() => {
+        groupRef.current = { started: false };
+    }, []);
+
+    const endGroup = useCallback(() => {
+        groupRef.current = null;
+    }, []);
+
+    // The step only moves to the other stack once applied, so a failed request can be retried
+    const step = useCallback(async (direction: 'undo' | 'redo') => {
+        const { past, future } = historyRef.current;
+        const command = direction === 'undo' ? past[past.length - 1] : future[future.length - 1];
+        if (!command || applying.current) return;
+
+        applying.current = true;
+        try {
+            await applyRef.current(command, direction);
+        } catch {
+            // The step stays where it was; `apply` tells the user why
+            return;
+        } finally {
+            applying.current = false;
+        }
+
+        const current = historyRef.current;
+        commit(direction === 'undo'
+            ? { past: current.past.slice(0, -1), future: [...current.future, command] }
+            : { past: [...current.past, command], future: current.future.slice(0, -1) });
+    }, [commit]);
+
+    const undo = useCallback(() => step('undo'), [step]);
+    const redo = useCallback(() => step('redo'), [step]);
+
+    const { past, future } = history;
+    return {
+        record,
+        beginGroup,
+        endGroup,
+        undo,
+        redo,
+        canUndo: past.length > 0,
+        canRedo: future.length > 0,
+        undoLabel: past[past.length - 1]?.label,
+        redoLabel: future[future.length - 1]?.label,
+    };
+}
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import api, { getEtag } from '../Api';
+import { useToast } from './useToast';
+import { houseKeys } from '../services/houses';
+import { deleteDraft, getDraft, saveDraft } from '../services/offlineStore';
+import { invalidateQueries } from '../services/queryCache';
+import { invalidateVersions } from '../services/versions';
+import { OFFLINE_MESSAGE, isNetworkError, queueMutation } from '../services/syncQueue';
+import { EMPTY_DESIGN, HouseDesign } from '../types/design';
+import { isForbidden, isPreconditionFailed } from '../utils/apiErrors';
+import { formatRelativeTime } from '../utils/dates';
+import { isSameDesign } from '../utils/designOps';
+
+// Editing pause after which unsaved changes are written to the device
+const DRAFT_DELAY = 1000;
+
+// Loads and saves the design (rooms, ...) attached to a house. Unsaved changes are kept on
+// the device until saved, and saving offline queues the design until the connection returns.
+export function useHouseDesign(houseId: string | undefined, houseName?: string) {
+    const [design, setDesignState] = useState<HouseDesign>(EMPTY_DESIGN);
+    // Latest design, for edits made several times before the next render (drags)
+    const designRef = useRef(design);
+    const [isDirty, setIsDirty] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    // The server's copy the current edits started from, to detect changes made elsewhere
+    const baseDesign = useRef<HouseDesign | null>(null);
+    // Version of the server's copy, so saving fails instead of overwriting someone else's save
+    const etag = useRef<string | null>(null);
+    const { showToast, showError } = useToast();
+    const draftKey = `design/${houseId}`;
+
+    const setDesign = useCallback((next: HouseDesign) => {
+        designRef.current = next;
+        setDesignState(next);
+    }, []);
+
+    useEffect(() => {
+        if (!houseId) return;
+
+        const fetchServerDesign = async () => {
+            try {
+                const response = await api.get<Partial<HouseDesign>>(`/houses/${houseId}/design/`);
+                etag.current = getEtag(response);
+                return { ...EMPTY_DESIGN, ...response.data };
+            } catch (error) {
+                // A house nobody has designed yet has no design record
+                if (axios.isAxiosError(error) && error.response?.status === 404) {
+                    etag.current = null;
+                    return EMPTY_DESIGN;
+                }
+                console.error('Error fetching house design:', error);
+                showError(error, 'Failed to load the house design.');
+                return null;
+            }
+        };
+
+        const fetchDesign = async () => {
+            setLoading(true);
+            const [server, draft] = await Promise.all([
+                fetchServerDesign(),
+                getDraft<HouseDesign>(draftKey).catch((error) => {
+                    console.error('Error loading design draft:', error);
+                    return undefined;
+                }),
+            ]);
+
+            if (draft) {
+                setDesign({ ...EMPTY_DESIGN, ...draft.value });
+                setIsDirty(true);
+                baseDesign.current = draft.base ?? server;
+                if (server && draft.base && !isSameDesign(server, draft.base)) {
+                    showToast('This design was changed elsewhere since your unsaved edits. Saving will replace those changes.', 'warning', null);
+                } else {
+                    showToast(`Restored your unsaved design changes from ${formatRelativeTime(draft.savedAt)}.`, 'info');
+                }
+            } else {
+                setDesign(server ?? EMPTY_DESIGN);
+                setIsDirty(false);
+                baseDesign.current = server;
+            }
+            setLoading(false);
+        };
+
+        fetchDesign();
+    }, [houseId, draftKey, setDesign, showToast, showError]);
+
+    // Keep unsaved changes on the device, so closing the page or losing the connection loses nothing
+    useEffect(() => {
+        if (!houseId || !isDirty) return;
+
+        const timeout = setTimeout(() => {
+            saveDraft(draftKey, design, baseDesign.current).catch((error) => console.error('Error saving design draft:', error));
+        }, DRAFT_DELAY);
+        return () => clearTimeout(timeout);
+    }, [houseId, draftKey, design, isDirty]);
+
+    // Returns the design before and after the edit, e.g. for the undo history
+    const updateDesign = useCallback((updater: (design: HouseDesign) => HouseDesign) => {
+        const before = designRef.current;
+        const after = updater(before);
+        setDesign(after);
+        setIsDirty(true);
+        return { before, after };
+    }, [setDesign]);
+
+    // Edits made while the request was out are still unsaved
+    const markSaved = useCallback((saved: HouseDesign) => {
+        baseDesign.current = saved;
+        const isCurrent = isSameDesign(designRef.current, saved);
+        setIsDirty(!isCurrent);
+        if (isCurrent) deleteDraft(draftKey).catch((error) => console.error('Error deleting design draft:', error));
+    }, [draftKey]);
+
+    // A collaborator saved the design: their version is now the one to save over
+    const acceptSaved = useCallback((saved: HouseDesign, savedEtag: string | null) => {
+        etag.current = savedEtag;
+        markSaved(saved);
+        if (houseId) invalidateVersions(houseId);
+    }, [houseId, markSaved]);
+
+    // Someone else saved since the design was loaded. Their version becomes the base, so saving
+    // again replaces it, unless live editing already merged both into the same design.
+    const handleSaveConflict = async () => {
+        const response = await api.get<Partial<HouseDesign>>(`/houses/${houseId}/design/`);
+        const server = { ...EMPTY_DESIGN, ...response.data };
+        etag.current = getEtag(response);
+        markSaved(server);
+        if (!isSameDesign(designRef.current, server)) {
+            showToast('Someone else saved this design since you opened it. Save again to replace their version with yours.', 'warning', null);
+        }
+    };
+
+    // Resolves to what was saved, for collaborators, or null when it was not
+    const saveDesign = async () => {
+        if (!houseId) return null;
+
+        try {
+            setSaving(true);
+            const response = await api.put(`/houses/${houseId}/design/`, design, {
+                headers: etag.current ? { 'If-Match': etag.current } : undefined,
+            });
+            etag.current = getEtag(response);
+            markSaved(design);
+            invalidateVersions(houseId);
+            return { design, etag: etag.current };
+        } catch (error) {
+            if (isNetworkError(error)) {
+                await queueMutation(
+                    { type: 'saveDesign', houseId: Number(houseId), payload: design, base: baseDesign.current },
+                    houseName ?? `House ${houseId}`
+                );
+                markSaved(design);
+                showToast(OFFLINE_MESSAGE, 'info');
+            } else if (isPreconditionFailed(error)) {
+                await handleSaveConflict().catch((conflictError) => {
+                    console.error('Error fetching house design:', conflictError);
+                    showError(conflictError, 'Failed to save the house design. Please try again.');
+                });
+            } else {
+                console.error('Error saving house design:', error);
+                showError(error, 'Failed to save the house design. Please try again.');
+                // The user's role may have changed, which decides what the page lets them do
+                if (isForbidden(error)) invalidateQueries(houseKeys.detail(houseId));
+            }
+        } finally {
+            setSaving(false);
+        }
+        return null;
+    };
+
+    return { design, updateDesign, saveDesign, acceptSaved, isDirty, loading, saving };
+}
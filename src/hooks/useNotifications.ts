@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { AppNotification } from '../types/notification';
+
+interface NotificationsContextType {
+    recent: AppNotification[]; // Latest notifications, shown in the bell menu
+    unreadCount: number;
+    refresh: () => Promise<void>;
+    markAsRead: (id: string) => Promise<void>;
+    markAllAsRead: () => Promise<void>;
+}
+
+// Given its value by the NotificationsProvider in context/NotificationsContext
+export const NotificationsContext = createContext<NotificationsContextType | null>(null);
+
+export const useNotifications = () => {
+    const context = useContext(NotificationsContext);
+    if (!context) {
+        throw new Error('useNotifications must be used within a NotificationsProvider');
+    }
+    return context;
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { STALE_TIME, fetchQuery, getQueryState, isStale, subscribe } from '../services/queryCache';
+
+interface QueryOptions<T> {
+    staleTime?: number;
+    // Shown until the first response arrives, e.g. a house already known from the list
+    placeholderData?: () => T | undefined;
+    // Keeps showing the last key's data while a new key loads, e.g. the previous search results
+    keepPreviousData?: boolean;
+}
+
+// Serves the cached response right away and refetches it in the background when stale
+export function useQuery<T>(key: string | null, fetcher: () => Promise<T>, { staleTime = STALE_TIME, placeholderData, keepPreviousData = false }: QueryOptions<T> = {}) {
+    const fetcherRef = useRef(fetcher);
+    const previousData = useRef<T | undefined>(undefined);
+    useEffect(() => {
+        fetcherRef.current = fetcher;
+    });
+
+    const state = useSyncExternalStore(
+        useCallback((listener: () => void) => (key ? subscribe(key, listener) : () => {}), [key]),
+        () => (key ? getQueryState<T>(key) : null)
+    );
+    const version = state?.version;
+
+    const refetch = useCallback(() => {
+        if (!key) return Promise.resolve(undefined);
+        // Errors are read from the returned state
+        return fetchQuery(key, () => fetcherRef.current()).catch(() => undefined);
+    }, [key]);
+
+    // On mount, when the key changes and after an invalidation
+    useEffect(() => {
+        if (key && isStale(key, staleTime)) refetch();
+    }, [key, version, staleTime, refetch]);
+
+    useEffect(() => {
+        if (state?.data !== undefined) previousData.current = state.data;
+    }, [state?.data]);
+
+    const data = state?.data ?? placeholderData?.() ?? (keepPreviousData ? previousData.current : undefined);
+    return {
+        data,
+        error: state?.error ?? null,
+        isLoading: !!key && data === undefined && !state?.error,
+        isFetching: !!state?.fetching,
+        refetch,
+    };
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { UserSettings } from '../types/user';
+
+interface SettingsContextType {
+    settings: UserSettings;
+    saveSettings: (settings: UserSettings) => Promise<void>;
+    loading: boolean;
+}
+
+// Given its value by the SettingsProvider in context/SettingsContext
+export const SettingsContext = createContext<SettingsContextType | null>(null);
+
+export const useSettings = () => {
+    const context = useContext(SettingsContext);
+    if (!context) {
+        throw new Error('useSettings must be used within a SettingsProvider');
+    }
+    return context;
+};
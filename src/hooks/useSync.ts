@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { PendingMutation } from '../types/sync';
+
+interface SyncContextType {
+    online: boolean;
+    syncing: boolean;
+    pending: PendingMutation[]; // Changes made offline, in the order they will be sent
+    conflicts: PendingMutation[]; // Changes held back until the user picks a version
+    resolveConflict: (id: number, keep: 'mine' | 'server') => Promise<void>;
+}
+
+// Given its value by the SyncProvider in context/SyncContext
+export const SyncContext = createContext<SyncContextType | null>(null);
+
+export const useSync = () => {
+    const context = useContext(SyncContext);
+    if (!context) {
+        throw new Error('useSync must be used within a SyncProvider');
+    }
+    return context;
+};
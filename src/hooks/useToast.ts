@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+export type ToastSeverity = 'success' | 'error' | 'warning' | 'info';
+
+interface ToastContextType {
+    showToast: (message: string, severity?: ToastSeverity, duration?: number | null) => void;
+    // Shows the message matching a failed request, e.g. "Cannot reach the server" when offline
+    showError: (error: unknown, fallback: string) => void;
+    dismissToast: (id: string) => void;
+}
+
+// Given its value by the ToastProvider in context/ToastContext
+export const ToastContext = createContext<ToastContextType | null>(null);
+
+export const useToast = () => {
+    const context = useContext(ToastContext);
+    if (!context) {
+        throw new Error('useToast must be used within a ToastProvider');
+    }
+    return context;
+};
@@ -1,52 +1,250 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Home, Ruler, Layers, ArrowLeft } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Home, Ruler, Layers, ArrowLeft, Edit2, Undo2, Redo2, Share2, History } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { Group, Object3D } from 'three';
 import DashboardLayout from "../components/layouts/DashboardLayout.tsx";
 import House3DModel from "../components/House3DModel";
-import api from "../Api.ts"; // Import the 3D model component
-
-interface HouseDetails {
-    id: number;
-    name: string;
-    width: number;
-    length: number;
-    floors: number;
-}
+import FloorPlanEditor from "../components/FloorPlanEditor";
+import FurniturePanel from "../components/FurniturePanel";
+import ExportMenu from "../components/ExportMenu";
+import ModelImportPanel from "../components/ModelImportPanel";
+import AttachmentsPanel from "../components/AttachmentsPanel";
+import CostEstimatePanel from "../components/CostEstimatePanel";
+import HouseForm from "../components/HouseForm";
+import SharePanel from "../components/SharePanel";
+import VersionHistoryPanel from "../components/VersionHistoryPanel";
+import AnnotationsPanel, { PendingAnnotation } from "../components/AnnotationsPanel";
+import { FocusRequest } from "../components/model/CameraFocus";
+import { useHouseDesign } from "../hooks/useHouseDesign";
+import { useQuery } from "../hooks/useQuery";
+import { EDIT_HISTORY_PREFIX, useEditHistory } from "../hooks/useEditHistory";
+import { useCollaboration } from "../hooks/useCollaboration";
+import { useSettings } from "../hooks/useSettings";
+import { useToast } from "../hooks/useToast";
+import { computeHouseGeometry } from "../utils/pricing";
+import { validateOpenings } from "../utils/openings";
+import { validateRooms } from "../utils/rooms";
+import { HouseFormData } from "../schemas/houseSchema";
+import { fetchHouse, findCachedHouse, houseKeys, updateHouse } from "../services/houses";
+import { annotationKeys, fetchAnnotations } from "../services/annotations";
+import { fetchMembers, memberKeys } from "../services/members";
+import { OFFLINE_MESSAGE, isOnline } from "../services/syncQueue";
+import { invalidateQueries } from "../services/queryCache";
+import { HouseDesign } from "../types/design";
+import { EditCommand } from "../types/history";
+import { Annotation } from "../types/annotation";
+import { HouseVersion } from "../types/version";
+import { ROLE_LABELS, canEdit, canManage, getRole } from "../utils/permissions";
+import { applyDesignOps, diffDesign } from "../utils/designOps";
+
+// Names a list edit for the undo history; changes to an existing entry merge while typing or sliding
+const describeListEdit = (before: unknown[], after: unknown[], noun: string) => {
+    if (after.length > before.length) return { label: `Add ${noun}`, merge: false };
+    if (after.length < before.length) return { label: `Remove ${noun}`, merge: false };
+    return { label: `Edit ${noun}`, merge: true };
+};
 
 export default function HouseDetailsPage() {
     const { id } = useParams();
     const navigate = useNavigate();
-    const [house, setHouse] = useState<HouseDetails | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const location = useLocation();
+    // The dashboard's copy of the house shows up at once while the page checks for a newer one
+    const { data: house, error: houseError, isLoading: loading } = useQuery(
+        id ? houseKeys.detail(id) : null,
+        () => fetchHouse(id!),
+        { placeholderData: () => findCachedHouse(Number(id)) }
+    );
+    const [isEditing, setIsEditing] = useState(false);
+    const [isSharing, setIsSharing] = useState(false);
+    const [isViewingHistory, setIsViewingHistory] = useState(false);
+    const [selectedAnnotationId, setSelectedAnnotationId] = useState<number | null>(null);
+    const [pendingAnnotation, setPendingAnnotation] = useState<PendingAnnotation | null>(null);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+    const [selectedFurnitureId, setSelectedFurnitureId] = useState<string | null>(null);
+    const modelRef = useRef<Group>(null);
+    const [importedModel, setImportedModel] = useState<Object3D | null>(null);
+    const { settings } = useSettings();
+    const { showToast, showError } = useToast();
+    const { design, updateDesign, saveDesign, acceptSaved, isDirty, loading: designLoading, saving } = useHouseDesign(id, house?.name);
+    // Everyone with the page open edits the same design, live
+    const collaboration = useCollaboration(id ? Number(id) : null, {
+        ready: !designLoading,
+        updateDesign,
+        onSaved: acceptSaved,
+        onHouseChanged: () => invalidateQueries(houseKeys.detail(id!)),
+    });
+    const { broadcastChange, notifyHouseChanged } = collaboration;
+    // Viewers see everything but the controls that change it
+    const editable = !!house && canEdit(house);
+    const { data: annotations = [], error: annotationsError, isLoading: annotationsLoading } = useQuery(
+        id ? annotationKeys.list(Number(id)) : null,
+        () => fetchAnnotations(Number(id))
+    );
+    // Without the members the owner and the commenters can still be mentioned
+    const { data: members } = useQuery(id ? memberKeys.list(Number(id)) : null, () => fetchMembers(Number(id)));
+    const people = Array.from(new Set([
+        ...(house?.owner_email ? [house.owner_email] : []),
+        ...(members ?? []).map((member) => member.email),
+        ...annotations.flatMap((annotation) => annotation.comments.map((comment) => comment.author_email)),
+    ]));
 
-    useEffect(() => {
-        if (id) {
-            fetchHouseDetails();
+    const handleSelectAnnotation = (annotation: Annotation) => {
+        setSelectedAnnotationId(annotation.id);
+        setFocusRequest({ position: annotation.position });
+    };
+
+    // Puts one side of an undo step back; house edits go through the API like any other.
+    // Design steps only revert their own entries, keeping what collaborators changed since.
+    const applyEdit = async (command: EditCommand, direction: 'undo' | 'redo') => {
+        if (command.target === 'design') {
+            const changes = direction === 'undo' ? diffDesign(command.after, command.before) : diffDesign(command.before, command.after);
+            const { before, after } = updateDesign((current) => applyDesignOps(current, changes));
+            broadcastChange(before, after);
+            return;
         }
-    }, [id]);
+        if (!house) return;
 
-    const fetchHouseDetails = async () => {
         try {
-            setLoading(true);
-            const response = await api.get<HouseDetails>(`/houses/${id}/`);
-            setHouse(response.data);
+            await updateHouse(house.id, direction === 'undo' ? command.before : command.after);
+            notifyHouseChanged();
         } catch (error) {
-            console.error('Error fetching house details:', error);
-            setError('Failed to load house details. Please try again.');
-        } finally {
-            setLoading(false);
+            console.error(`Error during ${direction}:`, error);
+            showError(error, `Could not ${direction} "${command.label}". Please try again.`);
+            throw error;
         }
     };
+    const editHistory = useEditHistory(`${EDIT_HISTORY_PREFIX}${id}`, applyEdit);
+    const { undo, redo } = editHistory;
+
+    const editDesign = (updater: (design: HouseDesign) => HouseDesign, label: string, merge = false) => {
+        const { before, after } = updateDesign(updater);
+        editHistory.record({ target: 'design', label, before, after }, { merge });
+        broadcastChange(before, after);
+    };
+
+    const editDesignList = <K extends 'rooms' | 'openings' | 'furniture'>(key: K, value: HouseDesign[K], noun: string) => {
+        const { label, merge } = describeListEdit(design[key], value, noun);
+        editDesign((current) => ({ ...current, [key]: value }), label, merge);
+    };
+
+    // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+    useEffect(() => {
+        if (!editable) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const key = event.key.toLowerCase();
+            if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return;
+            if ((event.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+            event.preventDefault();
+            if (key === 'y' || event.shiftKey) {
+                redo();
+            } else {
+                undo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [editable, undo, redo]);
+
+    useEffect(() => {
+        if (houseError) {
+            console.error('Error fetching house details:', houseError);
+            showError(houseError, 'Failed to load house details. Please try again.');
+        }
+    }, [houseError, showError]);
+
+    useEffect(() => {
+        if (annotationsError) {
+            console.error('Error fetching comments:', annotationsError);
+            showError(annotationsError, 'Failed to load the comments.');
+        }
+    }, [annotationsError, showError]);
+
+    // Comment notifications link to their thread
+    const linkedAnnotation = /^#annotation-(\d+)$/.exec(location.hash)?.[1];
+    const linkedPosition = annotations.find((annotation) => annotation.id === Number(linkedAnnotation))?.position;
+    useEffect(() => {
+        if (!linkedAnnotation || !linkedPosition) return;
+        setSelectedAnnotationId(Number(linkedAnnotation));
+        setFocusRequest({ position: linkedPosition });
+    }, [linkedAnnotation, linkedPosition]);
+
+    // The dashboard's "Design Attachment" button links straight to the attachments section
+    const hasHouse = !!house;
+    useEffect(() => {
+        if (hasHouse && location.hash) {
+            document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+        }
+    }, [hasHouse, location.hash]);
+
+    const geometry = house ? computeHouseGeometry(house) : null;
+
+    const handleUpdateHouse = async (data: HouseFormData) => {
+        if (!house) return;
+
+        const { name, width, length, height, floors } = house;
+        await updateHouse(house.id, data);
+        notifyHouseChanged();
+        editHistory.record({ target: 'house', label: 'Edit house', before: { name, width, length, height, floors }, after: data });
+        setIsEditing(false);
+        if (isOnline()) {
+            showToast('House updated successfully!', 'success');
+        } else {
+            showToast(OFFLINE_MESSAGE, 'info');
+        }
+    };
+
+    // Restoring is an edit like any other: undoable, shared live, and saved with Save Design
+    const handleRestoreVersion = async (version: HouseVersion) => {
+        if (!house) return;
+
+        const label = version.name ? `Restore "${version.name}"` : 'Restore version';
+        editDesign(() => version.design, label);
+
+        const { name, width, length, height, floors } = house;
+        const before = { name, width, length, height, floors };
+        const after = version.house;
+        const houseChanged = (Object.keys(before) as (keyof typeof before)[]).some((key) => before[key] !== after[key]);
+        if (houseChanged) {
+            try {
+                await updateHouse(house.id, after);
+                notifyHouseChanged();
+                editHistory.record({ target: 'house', label, before, after });
+            } catch (error) {
+                console.error('Error restoring house:', error);
+                showError(error, 'The design was restored, but the house dimensions could not be. Please try again.');
+                return;
+            }
+        }
+        showToast('Version restored. Save the design to keep it.', 'success');
+    };
+
+    const handleSaveDesign = async () => {
+        // Overlapping or out-of-bounds rooms, and doors or windows that do not fit, are only saved when the user says so
+        const issues = house ? [
+            ...validateRooms(design.rooms, house.width, house.length),
+            ...validateOpenings(design.openings, design.rooms, house.width, house.length, house.height / Math.max(house.floors, 1)),
+        ] : [];
+        if (issues.length > 0 && !window.confirm(
+            `The floor plan has ${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}, starting with: ${issues[0].message}. Save it anyway?`
+        )) {
+            return;
+        }
+
+        const saved = await saveDesign();
+        if (saved) collaboration.notifySaved(saved.design, saved.etag);
+    };
 
     return (
         <DashboardLayout>
-            <div className="max-w-4xl mx-auto px-2 py-8">
+            <div className="max-w-6xl mx-auto px-2 py-8">
                 {/* Back Button */}
                 <button
                     onClick={() => navigate('/dashboard')}
-                    className="mb-6 flex items-center text-indigo-600 hover:text-indigo-800 transition-colors duration-200"
+                    className="mb-6 flex items-center text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 transition-colors duration-200"
                 >
                     <ArrowLeft className="w-5 h-5 mr-2" />
                     Back to Dashboard
@@ -58,53 +256,131 @@ export default function HouseDetailsPage() {
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
                         transition={{ duration: 0.5 }}
-                        className="bg-white shadow-lg rounded-lg overflow-hidden"
+                        className="bg-white dark:bg-gray-800 shadow-lg rounded-lg overflow-hidden"
                     >
                         <div className="p-6 sm:p-8">
                             <div className="flex items-center justify-between mb-6">
                                 <div className="flex items-center space-x-4">
-                                    <Home className="w-10 h-10 text-indigo-600" />
-                                    <h1 className="text-3xl font-bold text-gray-900">{house.name}</h1>
+                                    <Home className="w-10 h-10 text-indigo-600 dark:text-indigo-400" />
+                                    <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{house.name}</h1>
+                                </div>
+                                <div className="flex items-center space-x-4">
+                                    <span className="text-sm font-medium text-gray-500 dark:text-gray-400">ID: {house.id}</span>
+                                    {getRole(house) !== 'owner' && (
+                                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 dark:bg-indigo-900/60 text-indigo-700 dark:text-indigo-300">
+                                            {ROLE_LABELS[getRole(house)]}
+                                        </span>
+                                    )}
+                                    {canManage(house) && (
+                                        <button
+                                            onClick={() => setIsSharing(!isSharing)}
+                                            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 flex items-center space-x-2"
+                                        >
+                                            <Share2 className="w-4 h-4" />
+                                            <span>Share</span>
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setIsViewingHistory(!isViewingHistory)}
+                                        className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 flex items-center space-x-2"
+                                    >
+                                        <History className="w-4 h-4" />
+                                        <span>History</span>
+                                    </button>
+                                    {editable && !isEditing && (
+                                        <button
+                                            onClick={() => setIsEditing(true)}
+                                            className="px-4 py-2 bg-teal-500 text-white rounded-md hover:bg-teal-600 transition-colors duration-200 flex items-center space-x-2"
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                            <span>Edit</span>
+                                        </button>
+                                    )}
                                 </div>
-                                <span className="text-sm font-medium text-gray-500">ID: {house.id}</span>
                             </div>
 
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                                {/* Width */}
-                                <div className="bg-indigo-50 p-4 rounded-lg">
-                                    <div className="flex items-center space-x-3 mb-2">
-                                        <Ruler className="w-6 h-6 text-indigo-600" />
-                                        <h2 className="text-lg font-semibold text-gray-900">Width</h2>
-                                    </div>
-                                    <p className="text-3xl font-bold text-indigo-700">{house.width}m</p>
+                            {house.owner_email && (
+                                <p className="-mt-4 mb-6 text-sm text-gray-500 dark:text-gray-400">Shared with you by {house.owner_email}</p>
+                            )}
+
+                            {isSharing && canManage(house) && (
+                                <div className="mb-6">
+                                    <SharePanel houseId={house.id} houseName={house.name} />
                                 </div>
+                            )}
 
-                                {/* Length */}
-                                <div className="bg-indigo-50 p-4 rounded-lg">
-                                    <div className="flex items-center space-x-3 mb-2">
-                                        <Ruler className="w-6 h-6 text-indigo-600" />
-                                        <h2 className="text-lg font-semibold text-gray-900">Length</h2>
-                                    </div>
-                                    <p className="text-3xl font-bold text-indigo-700">{house.length}m</p>
+                            {isViewingHistory && (
+                                <div className="mb-6">
+                                    <VersionHistoryPanel
+                                        houseId={house.id}
+                                        current={{
+                                            label: 'Current',
+                                            house: { name: house.name, width: house.width, length: house.length, height: house.height, floors: house.floors },
+                                            design,
+                                        }}
+                                        onRestore={editable ? handleRestoreVersion : undefined}
+                                    />
                                 </div>
+                            )}
+
+                            {isEditing && editable ? (
+                                <HouseForm
+                                    defaultValues={house}
+                                    houseId={house.id}
+                                    submitLabel="Save"
+                                    submittingLabel="Saving..."
+                                    errorMessage="Error updating house. Please try again."
+                                    onSubmit={handleUpdateHouse}
+                                    onCancel={() => setIsEditing(false)}
+                                />
+                            ) : (
+                                <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                                    {/* Width */}
+                                    <div className="bg-indigo-50 dark:bg-indigo-900/40 p-4 rounded-lg">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <Ruler className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+                                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Width</h2>
+                                        </div>
+                                        <p className="text-3xl font-bold text-indigo-700 dark:text-indigo-300">{house.width}m</p>
+                                    </div>
+
+                                    {/* Length */}
+                                    <div className="bg-indigo-50 dark:bg-indigo-900/40 p-4 rounded-lg">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <Ruler className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+                                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Length</h2>
+                                        </div>
+                                        <p className="text-3xl font-bold text-indigo-700 dark:text-indigo-300">{house.length}m</p>
+                                    </div>
+
+                                    {/* Height */}
+                                    <div className="bg-indigo-50 dark:bg-indigo-900/40 p-4 rounded-lg">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <Ruler className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+                                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Height</h2>
+                                        </div>
+                                        <p className="text-3xl font-bold text-indigo-700 dark:text-indigo-300">{house.height}m</p>
+                                    </div>
 
-                                {/* Floors */}
-                                <div className="bg-indigo-50 p-4 rounded-lg">
-                                    <div className="flex items-center space-x-3 mb-2">
-                                        <Layers className="w-6 h-6 text-indigo-600" />
-                                        <h2 className="text-lg font-semibold text-gray-900">Floors</h2>
+                                    {/* Floors */}
+                                    <div className="bg-indigo-50 dark:bg-indigo-900/40 p-4 rounded-lg">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <Layers className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+                                            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Floors</h2>
+                                        </div>
+                                        <p className="text-3xl font-bold text-indigo-700 dark:text-indigo-300">{house.floors}</p>
                                     </div>
-                                    <p className="text-3xl font-bold text-indigo-700">{house.floors}</p>
                                 </div>
-                            </div>
+                            )}
 
                             {/* Additional Information */}
                             <div className="mt-8">
-                                <h2 className="text-xl font-semibold text-gray-900 mb-4">Additional Information</h2>
-                                <p className="text-gray-600">
-                                    This house has a total area of {house.width * house.length} square meters.
+                                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Additional Information</h2>
+                                <p className="text-gray-600 dark:text-gray-300">
+                                    This house has a footprint of {house.width * house.length} square meters.
                                     With {house.floors} {house.floors === 1 ? 'floor' : 'floors'}, the total living space
-                                    is approximately {house.width * house.length * house.floors} square meters.
+                                    is approximately {geometry?.floorArea} square meters, enclosed by {geometry?.perimeter} meters
+                                    of exterior wall.
                                 </p>
                             </div>
                         </div>
@@ -114,14 +390,166 @@ export default function HouseDetailsPage() {
                 {/* 3D Model Section (outside the card) */}
                 {house && (
                     <div className="my-8">
-                        <h2 className="text-xl font-semibold text-gray-900 mb-4">3D Model of the House</h2>
-                        <div style={{width: '100%', height: '80vh'}} className="border-4 border-black">
-                            <House3DModel width={house.width} height={10} length={house.length} />
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">3D Model of the House</h2>
+                            <div className="flex items-center space-x-3">
+                                {editable && (
+                                    <div className="flex">
+                                        <button
+                                            onClick={undo}
+                                            disabled={!editHistory.canUndo}
+                                            title={editHistory.undoLabel ? `Undo: ${editHistory.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                                            aria-label="Undo"
+                                            className="p-2 border border-gray-300 dark:border-gray-600 rounded-l-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            <Undo2 className="w-5 h-5" />
+                                        </button>
+                                        <button
+                                            onClick={redo}
+                                            disabled={!editHistory.canRedo}
+                                            title={editHistory.redoLabel ? `Redo: ${editHistory.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                                            aria-label="Redo"
+                                            className="p-2 border border-l-0 border-gray-300 dark:border-gray-600 rounded-r-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            <Redo2 className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                )}
+                                <ExportMenu houseName={house.name} modelRef={modelRef} />
+                                {editable && (
+                                    <button
+                                        onClick={handleSaveDesign}
+                                        disabled={!isDirty || saving}
+                                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {saving ? 'Saving...' : isDirty ? 'Save Design' : 'Saved'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <div className="flex flex-col lg:flex-row gap-4">
+                            <div style={{height: '80vh'}} className="flex-1 min-w-0 border-4 border-black">
+                                <House3DModel
+                                    width={house.width}
+                                    height={house.height}
+                                    length={house.length}
+                                    floors={house.floors}
+                                    rooms={design.rooms}
+                                    openings={design.openings}
+                                    furniture={design.furniture}
+                                    importedModel={importedModel}
+                                    modelRef={modelRef}
+                                    unitSystem={settings.unitSystem}
+                                    surfaceMaterials={design.surfaceMaterials}
+                                    onSurfaceMaterialsChange={editable ? (surfaceMaterials) => editDesign((current) => ({ ...current, surfaceMaterials }), 'Paint surface') : undefined}
+                                    selectedFurnitureId={selectedFurnitureId}
+                                    onSelectFurniture={setSelectedFurnitureId}
+                                    onFurnitureChange={editable ? (item) => editDesign((current) => ({
+                                        ...current,
+                                        furniture: current.furniture.map((piece) => (piece.id === item.id ? item : piece)),
+                                    }), 'Move furniture') : undefined}
+                                    onFurnitureDraggingChange={(dragging) => (dragging ? editHistory.beginGroup() : editHistory.endGroup())}
+                                    annotations={annotations}
+                                    pendingAnnotation={pendingAnnotation?.position}
+                                    selectedAnnotationId={selectedAnnotationId}
+                                    onSelectAnnotation={setSelectedAnnotationId}
+                                    onAddAnnotation={(position, label) => {
+                                        setPendingAnnotation({ position, label });
+                                        setSelectedAnnotationId(null);
+                                    }}
+                                    focusRequest={focusRequest}
+                                    collaborators={collaboration.collaborators}
+                                    connectionStatus={collaboration.status}
+                                    cursors={collaboration.cursors}
+                                    onCursorMove={collaboration.moveCursor}
+                                />
+                            </div>
+                            {/* Comment threads of the pins */}
+                            <div className="lg:w-80 lg:h-[80vh]">
+                                <AnnotationsPanel
+                                    houseId={house.id}
+                                    annotations={annotations}
+                                    loading={annotationsLoading}
+                                    people={people}
+                                    selectedId={selectedAnnotationId}
+                                    onSelect={handleSelectAnnotation}
+                                    pending={pendingAnnotation}
+                                    onPendingDone={(annotation) => {
+                                        setPendingAnnotation(null);
+                                        if (annotation) setSelectedAnnotationId(annotation.id);
+                                    }}
+                                />
+                            </div>
                         </div>
+                        {editable && (
+                            <div className="mt-4">
+                                <FurniturePanel
+                                    width={house.width}
+                                    length={house.length}
+                                    floors={house.floors}
+                                    furniture={design.furniture}
+                                    selectedId={selectedFurnitureId}
+                                    onSelect={setSelectedFurnitureId}
+                                    onChange={(furniture) => editDesignList('furniture', furniture, 'furniture')}
+                                />
+                            </div>
+                        )}
                     </div>
                 )}
 
-                {/* Loading and Error Handling */}
+                {/* Attachments */}
+                {house && id && (
+                    <div id="attachments" className="my-8">
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Design Attachments</h2>
+                        <ModelImportPanel
+                            houseId={id}
+                            width={house.width}
+                            length={house.length}
+                            height={house.height}
+                            onModelChange={setImportedModel}
+                            readOnly={!editable}
+                        />
+                        <div className="mt-4">
+                            <AttachmentsPanel houseId={id} readOnly={!editable} />
+                        </div>
+                    </div>
+                )}
+
+                {/* Floor Plan Editor */}
+                {house && (
+                    <div className="my-8">
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Floor Plan</h2>
+                        <FloorPlanEditor
+                            width={house.width}
+                            length={house.length}
+                            height={house.height}
+                            floors={house.floors}
+                            rooms={design.rooms}
+                            openings={design.openings}
+                            onChange={(rooms) => editDesignList('rooms', rooms, 'room')}
+                            onOpeningsChange={(openings) => editDesignList('openings', openings, 'door or window')}
+                            readOnly={!editable}
+                        />
+                    </div>
+                )}
+
+                {/* Cost Estimate */}
+                {house && (
+                    <div className="my-8">
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Cost Estimate</h2>
+                        <CostEstimatePanel
+                            width={house.width}
+                            length={house.length}
+                            height={house.height}
+                            floors={house.floors}
+                            design={design}
+                            onChange={(estimate) => editDesign((current) => ({ ...current, estimate }), 'Edit cost estimate', true)}
+                            readOnly={!editable}
+                        />
+                    </div>
+                )}
+
+                {/* Loading */}
                 {loading && (
                     <div className="text-center py-12">
                         <motion.div
@@ -131,17 +559,6 @@ export default function HouseDetailsPage() {
                         />
                     </div>
                 )}
-
-                {error && (
-                    <motion.div
-                        initial={{ opacity: 0, y: -10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-6"
-                        role="alert"
-                    >
-                        <span className="block sm:inline">{error}</span>
-                    </motion.div>
-                )}
             </div>
         </DashboardLayout>
     );
@@ -6,10 +6,12 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { motion } from 'framer-motion';
 import { Mail, Lock, ArrowRight } from 'lucide-react';
-import {Link, useNavigate} from 'react-router-dom'; // Import Link for navigation
-import api from '../Api.ts';
-import {AxiosError} from "axios";
+import {Link, useLocation, useNavigate} from 'react-router-dom'; // Import Link for navigation
+import api, {SESSION_EXPIRED_REASON} from '../Api.ts';
 import {useAuth} from "../context/AuthContext.tsx";
+import {useToast} from "../hooks/useToast.ts";
+import FormError from "../components/FormError.tsx";
+import {setServerErrors} from "../utils/formErrors.ts";
 
 const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -21,29 +23,28 @@ type LoginFormData = z.infer<typeof loginSchema>;
 export default function LoginPage() {
     const { login } = useAuth();
     const navigate = useNavigate();
+    const location = useLocation();
+    const sessionExpired = (location.state as { reason?: string } | null)?.reason === SESSION_EXPIRED_REASON;
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [submitError, setSubmitError] = useState<string | null>(null);
-    const [submitSuccess, setSubmitSuccess] = useState(false);
+    const { showToast } = useToast();
 
-    const { register, handleSubmit, formState: { errors } } = useForm<LoginFormData>({
+    const { register, handleSubmit, setError, formState: { errors } } = useForm<LoginFormData>({
         resolver: zodResolver(loginSchema),
     });
 
     const onSubmit = async (data: LoginFormData) => {
         setIsSubmitting(true);
-        setSubmitError(null);
-        setSubmitSuccess(false);
 
         try {
             const response = await api.post('/auth/login/', data);
             if (response.status === 200) {
                 login(response.data);
-                setSubmitSuccess(true);
+                showToast('Login successful! Welcome back!', 'success');
                 navigate('/dashboard');
             }
-        } catch (err) {
-            const error = err as AxiosError<{ detail: string }>;
-            setSubmitError(error.response?.data?.detail || 'An error occurred');
+        } catch (error) {
+            console.error('Error logging in:', error);
+            setServerErrors(error, setError, loginSchema.keyof().options, 'Login failed. Please check your email and password.');
         } finally {
             setIsSubmitting(false);
         }
@@ -51,36 +52,28 @@ export default function LoginPage() {
 
 
     return (
-        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 p-4">
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 dark:text-gray-100 p-4">
             <motion.div
                 initial={{ opacity: 0, y: -20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5 }}
-                className="bg-white p-8 rounded-2xl shadow-lg w-full max-w-md border border-gray-200"
+                className="bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-lg w-full max-w-md border border-gray-200 dark:border-gray-700"
             >
-                <h2 className="text-3xl font-bold mb-2 text-center text-gray-800">Welcome Back</h2>
-                <p className="text-gray-600 text-center mb-8">Log in to your account</p>
-                {submitError && (
+                <h2 className="text-3xl font-bold mb-2 text-center text-gray-800 dark:text-gray-100">Welcome Back</h2>
+                <p className="text-gray-600 dark:text-gray-300 text-center mb-8">Log in to your account</p>
+                {sessionExpired && (
                     <motion.div
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
-                        className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-lg text-sm"
+                        className="mt-4 p-3 bg-amber-100 dark:bg-amber-900/40 border border-amber-400 text-amber-700 dark:text-amber-300 rounded-lg text-sm"
                     >
-                        {submitError}
-                    </motion.div>
-                )}
-                {submitSuccess && (
-                    <motion.div
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="mt-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded-lg text-sm"
-                    >
-                        Login successful! Welcome back!
+                        Your session has expired. Please log in again.
                     </motion.div>
                 )}
                 <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                    <FormError message={errors.root?.server?.message} />
                     <div>
-                        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
                             Email
                         </label>
                         <div className="relative">
@@ -88,7 +81,7 @@ export default function LoginPage() {
                                 id="email"
                                 type="email"
                                 {...register('email')}
-                                className="w-full pl-10 pr-3 py-2 text-sm border-b border-gray-300 focus:outline-none focus:border-gray-600 transition-colors duration-300 bg-gray-50"
+                                className="w-full pl-10 pr-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900"
                                 placeholder="your@email.com"
                             />
                             <Mail className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
@@ -96,7 +89,7 @@ export default function LoginPage() {
                         {errors.email && <p className="text-red-500 text-xs mt-1">{errors.email.message}</p>}
                     </div>
                     <div>
-                        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                        <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
                             Password
                         </label>
                         <div className="relative">
@@ -104,7 +97,7 @@ export default function LoginPage() {
                                 id="password"
                                 type="password"
                                 {...register('password')}
-                                className="w-full pl-10 pr-3 py-2 text-sm border-b border-gray-300 focus:outline-none focus:border-gray-600 transition-colors duration-300 bg-gray-50"
+                                className="w-full pl-10 pr-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900"
                                 placeholder="••••••••"
                             />
                             <Lock className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
@@ -114,7 +107,7 @@ export default function LoginPage() {
                     <motion.button
                         type="submit"
                         disabled={isSubmitting}
-                        className="w-full bg-gray-800 text-white py-3 px-6 rounded-full hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm font-medium flex items-center justify-center space-x-2"
+                        className="w-full bg-gray-800 dark:bg-gray-600 text-white py-3 px-6 rounded-full hover:bg-gray-700 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm font-medium flex items-center justify-center space-x-2"
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
                     >
@@ -124,9 +117,9 @@ export default function LoginPage() {
                 </form>
 
                 <div className="mt-6 text-center">
-                    <p className="text-sm text-gray-600">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
                         Don't have an account?{' '}
-                        <Link to="/register" className="text-gray-800 font-medium hover:underline">
+                        <Link to="/register" className="text-gray-800 dark:text-gray-100 font-medium hover:underline">
                             Sign up here
                         </Link>
                     </p>
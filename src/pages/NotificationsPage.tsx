@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCheck } from 'lucide-react';
+import DashboardLayout from '../components/layouts/DashboardLayout';
+import NotificationItem from '../components/NotificationItem';
+import Pagination from '../components/Pagination';
+import { useNotifications } from '../hooks/useNotifications';
+import { useToast } from '../hooks/useToast';
+import { AppNotification } from '../types/notification';
+import { notificationSource } from '../utils/notificationSource';
+
+const PAGE_SIZE = 20;
+
+export default function NotificationsPage() {
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const page = Math.max(1, Number(searchParams.get('page')) || 1);
+    const { recent, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [count, setCount] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const { showError } = useToast();
+
+    const fetchNotifications = useCallback(async () => {
+        try {
+            const response = await notificationSource.list(page, PAGE_SIZE);
+            setNotifications(response.results);
+            setCount(response.count);
+        } catch (error) {
+            console.error('Error fetching notifications:', error);
+            showError(error, 'Failed to load notifications. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    }, [page, showError]);
+
+    // Reload whenever the feed brings something new, which also refreshes the bell menu's list
+    useEffect(() => {
+        fetchNotifications();
+    }, [fetchNotifications, recent]);
+
+    const handleOpen = async (notification: AppNotification) => {
+        if (!notification.read) {
+            try {
+                await markAsRead(notification.id);
+            } catch (error) {
+                console.error('Error marking notification as read:', error);
+            }
+        }
+        if (notification.link) navigate(notification.link);
+    };
+
+    const handleMarkAllAsRead = async () => {
+        try {
+            await markAllAsRead();
+            setNotifications((current) => current.map((item) => ({ ...item, read: true })));
+        } catch (error) {
+            console.error('Error marking notifications as read:', error);
+            showError(error, 'Error marking notifications as read. Please try again.');
+        }
+    };
+
+    return (
+        <DashboardLayout>
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                <div className="mb-8 flex justify-between items-center">
+                    <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Notifications</h1>
+                    <button
+                        onClick={handleMarkAllAsRead}
+                        disabled={unreadCount === 0}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors duration-150 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <CheckCheck className="w-4 h-4" />
+                        <span>Mark all as read</span>
+                    </button>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md divide-y divide-gray-100 dark:divide-gray-700 overflow-hidden">
+                    {!loading && notifications.length === 0 ? (
+                        <p className="px-4 py-12 text-center text-gray-500 dark:text-gray-400">You have no notifications yet.</p>
+                    ) : (
+                        notifications.map((notification) => (
+                            <NotificationItem key={notification.id} notification={notification} onOpen={handleOpen} />
+                        ))
+                    )}
+                </div>
+
+                <Pagination
+                    page={page}
+                    pageCount={Math.max(1, Math.ceil(count / PAGE_SIZE))}
+                    count={count}
+                    itemName="notification"
+                    onPageChange={(next) => setSearchParams(next > 1 ? { page: String(next) } : {})}
+                />
+            </div>
+        </DashboardLayout>
+    );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { User, Mail, Lock, Phone, MapPin } from 'lucide-react';
+import DashboardLayout from '../components/layouts/DashboardLayout';
+import api from '../Api';
+import { useToast } from '../hooks/useToast';
+import { UserProfile } from '../types/user';
+import { ChangePasswordFormData, ProfileFormData, changePasswordSchema, profileSchema } from '../schemas/profileSchema';
+
+const inputClass = 'w-full pl-10 pr-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900';
+
+// The API leaves optional fields empty as null, the form works with strings
+const toFormData = ({ firstName, lastName, email, phoneNumber, address }: UserProfile): ProfileFormData => ({
+    firstName,
+    lastName,
+    email,
+    phoneNumber: phoneNumber ?? '',
+    address: address ?? '',
+});
+
+function ChangePasswordForm() {
+    const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<ChangePasswordFormData>({
+        resolver: zodResolver(changePasswordSchema),
+    });
+    const { showToast, showError } = useToast();
+
+    const onSubmit: SubmitHandler<ChangePasswordFormData> = async ({ currentPassword, newPassword }) => {
+        try {
+            await api.post('/users/me/password/', { currentPassword, newPassword });
+            reset();
+            showToast('Your password has been changed.', 'success');
+        } catch (error) {
+            console.error('Error changing password:', error);
+            showError(error, 'Failed to change the password.');
+        }
+    };
+
+    const fields: { name: keyof ChangePasswordFormData; label: string }[] = [
+        { name: 'currentPassword', label: 'Current password' },
+        { name: 'newPassword', label: 'New password' },
+        { name: 'confirmPassword', label: 'Confirm new password' },
+    ];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 sm:p-8">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Change Password</h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                {fields.map(({ name, label }) => (
+                    <div key={name}>
+                        <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">{label}</label>
+                        <div className="relative">
+                            <input id={name} type="password" autoComplete={name === 'currentPassword' ? 'current-password' : 'new-password'} {...register(name)} className={inputClass} />
+                            <Lock className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                        </div>
+                        {errors[name] && <p className="text-red-500 text-xs mt-1">{errors[name]?.message}</p>}
+                    </div>
+                ))}
+                <div className="flex justify-end">
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="px-4 py-2 bg-gray-800 dark:bg-gray-600 text-white rounded-md hover:bg-gray-700 dark:hover:bg-gray-500 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting ? 'Changing...' : 'Change Password'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
+
+export default function ProfilePage() {
+    const { register, handleSubmit, reset, formState: { errors, isSubmitting, isDirty } } = useForm<ProfileFormData>({
+        resolver: zodResolver(profileSchema),
+    });
+    const [loading, setLoading] = useState(true);
+    const { showToast, showError } = useToast();
+
+    useEffect(() => {
+        const fetchProfile = async () => {
+            try {
+                const response = await api.get<UserProfile>('/users/me/');
+                reset(toFormData(response.data));
+            } catch (error) {
+                console.error('Error fetching profile:', error);
+                showError(error, 'Failed to load your profile. Please try again.');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchProfile();
+    }, [reset, showError]);
+
+    const onSubmit: SubmitHandler<ProfileFormData> = async (data) => {
+        try {
+            const response = await api.patch<UserProfile>('/users/me/', data);
+            reset(toFormData(response.data));
+            showToast('Profile updated successfully!', 'success');
+        } catch (error) {
+            console.error('Error updating profile:', error);
+            showError(error, 'Error updating profile. Please try again.');
+        }
+    };
+
+    const fields: { name: keyof ProfileFormData; label: string; icon: typeof User; type?: string; placeholder: string }[] = [
+        { name: 'firstName', label: 'First Name', icon: User, placeholder: 'John' },
+        { name: 'lastName', label: 'Last Name', icon: User, placeholder: 'Doe' },
+        { name: 'email', label: 'Email', icon: Mail, type: 'email', placeholder: 'john@example.com' },
+        { name: 'phoneNumber', label: 'Phone Number', icon: Phone, placeholder: '+1 (555) 123-4567' },
+        { name: 'address', label: 'Address', icon: MapPin, placeholder: '123 Main St, City, Country' },
+    ];
+
+    return (
+        <DashboardLayout>
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Your Profile</h1>
+
+                <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 sm:p-8">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Personal Information</h2>
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            {fields.map(({ name, label, icon: Icon, type, placeholder }) => (
+                                <div key={name} className={name === 'address' ? 'sm:col-span-2' : undefined}>
+                                    <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">{label}</label>
+                                    <div className="relative">
+                                        <input
+                                            id={name}
+                                            type={type ?? 'text'}
+                                            disabled={loading}
+                                            {...register(name)}
+                                            className={inputClass}
+                                            placeholder={placeholder}
+                                        />
+                                        <Icon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                                    </div>
+                                    {errors[name] && <p className="text-red-500 text-xs mt-1">{errors[name]?.message}</p>}
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end">
+                            <button
+                                type="submit"
+                                disabled={loading || isSubmitting || !isDirty}
+                                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isSubmitting ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+
+                <ChangePasswordForm />
+            </div>
+        </DashboardLayout>
+    );
+}
@@ -0,0 +1,104 @@
+import { useEffect } from 'react';
+import { useForm, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import DashboardLayout from '../components/layouts/DashboardLayout';
+import { useSettings } from '../hooks/useSettings';
+import { useToast } from '../hooks/useToast';
+import { SettingsFormData, settingsSchema } from '../schemas/settingsSchema';
+
+const inputClass = 'w-full px-3 py-2 text-sm border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-gray-600 dark:focus:border-gray-400 transition-colors duration-300 bg-gray-50 dark:bg-gray-900';
+
+const DIMENSION_FIELDS: { name: 'defaultWidth' | 'defaultLength' | 'defaultHeight' | 'defaultFloors'; label: string; step: number }[] = [
+    { name: 'defaultWidth', label: 'Width (m)', step: 0.5 },
+    { name: 'defaultLength', label: 'Length (m)', step: 0.5 },
+    { name: 'defaultHeight', label: 'Height (m)', step: 0.5 },
+    { name: 'defaultFloors', label: 'Floors', step: 1 },
+];
+
+export default function SettingsPage() {
+    const { settings, saveSettings, loading } = useSettings();
+    const { register, handleSubmit, reset, formState: { errors, isSubmitting, isDirty } } = useForm<SettingsFormData>({
+        resolver: zodResolver(settingsSchema),
+        defaultValues: settings,
+    });
+    const { showToast, showError } = useToast();
+
+    // Show the stored settings once they arrive from the API
+    useEffect(() => {
+        reset(settings);
+    }, [settings, reset]);
+
+    const onSubmit: SubmitHandler<SettingsFormData> = async (data) => {
+        try {
+            await saveSettings(data);
+            showToast('Settings saved successfully!', 'success');
+        } catch (error) {
+            console.error('Error saving settings:', error);
+            showError(error, 'Error saving settings. Please try again.');
+        }
+    };
+
+    return (
+        <DashboardLayout>
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Settings</h1>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 sm:p-8 space-y-8">
+                    {/* Display */}
+                    <section>
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Display</h2>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            <label className="block">
+                                <span className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Units</span>
+                                <select {...register('unitSystem')} className={inputClass}>
+                                    <option value="metric">Metric (m, m²)</option>
+                                    <option value="imperial">Imperial (ft, ft²)</option>
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Theme</span>
+                                <select {...register('theme')} className={inputClass}>
+                                    <option value="light">Light</option>
+                                    <option value="dark">Dark</option>
+                                    <option value="system">Same as the system</option>
+                                </select>
+                            </label>
+                        </div>
+                    </section>
+
+                    {/* New house defaults */}
+                    <section>
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-1">New House Defaults</h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">Prefilled when you add a house from the dashboard.</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                            {DIMENSION_FIELDS.map(({ name, label, step }) => (
+                                <div key={name}>
+                                    <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">{label}</label>
+                                    <input
+                                        id={name}
+                                        type="number"
+                                        step={step}
+                                        min={1}
+                                        {...register(name, { valueAsNumber: true })}
+                                        className={inputClass}
+                                    />
+                                    {errors[name] && <p className="text-red-500 text-xs mt-1">{errors[name]?.message}</p>}
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={loading || isSubmitting || !isDirty}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Save Settings'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </DashboardLayout>
+    );
+}
@@ -0,0 +1,57 @@
+import * as z from 'zod';
+
+// Limits of what the 3D viewer and the cost estimate can sensibly handle
+export const MAX_FOOTPRINT_SIZE = 200; // m, for the width and the length
+export const MAX_HEIGHT = 100; // m
+export const MAX_FLOORS = 30;
+export const MIN_FLOOR_HEIGHT = 2.2; // m
+export const MAX_FLOOR_HEIGHT = 6; // m
+
+// Also the rules of the default dimensions in the settings, so new houses start from valid ones
+export const dimensionFields = z.object({
+    width: z.number({ invalid_type_error: 'Width is required' })
+        .positive('Width must be greater than 0')
+        .max(MAX_FOOTPRINT_SIZE, `Width must be at most ${MAX_FOOTPRINT_SIZE}m`),
+    length: z.number({ invalid_type_error: 'Length is required' })
+        .positive('Length must be greater than 0')
+        .max(MAX_FOOTPRINT_SIZE, `Length must be at most ${MAX_FOOTPRINT_SIZE}m`),
+    height: z.number({ invalid_type_error: 'Height is required' })
+        .positive('Height must be greater than 0')
+        .max(MAX_HEIGHT, `Height must be at most ${MAX_HEIGHT}m`),
+    floors: z.number({ invalid_type_error: 'Floors are required' })
+        .int('Floors must be a whole number')
+        .min(1, 'Floors must be at least 1')
+        .max(MAX_FLOORS, `Floors must be at most ${MAX_FLOORS}`),
+});
+
+const houseFields = z.object({
+    name: z.string().trim().min(1, 'House name is required').max(100, 'House name must be at most 100 characters'),
+}).merge(dimensionFields);
+
+export const HOUSE_FIELDS = houseFields.keyof().options;
+
+// The height is split evenly between the floors, each of which must stay livable
+export const checkFloorHeight = (height: number, floors: number, ctx: z.RefinementCtx, path = 'height') => {
+    const floorHeight = height / floors;
+    if (floorHeight < MIN_FLOOR_HEIGHT || floorHeight > MAX_FLOOR_HEIGHT) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [path],
+            message: `${floors} ${floors === 1 ? 'floor needs' : 'floors need'} a height between ${+(floors * MIN_FLOOR_HEIGHT).toFixed(2)}m and ${floors * MAX_FLOOR_HEIGHT}m`,
+        });
+    }
+};
+
+export const houseSchema = houseFields.superRefine(({ height, floors }, ctx) => checkFloorHeight(height, floors, ctx));
+
+// Adds the check against the names of the user's other houses, compared regardless of case
+export const createHouseSchema = (takenNames: string[]) => {
+    const taken = new Set(takenNames.map((name) => name.trim().toLowerCase()));
+    return houseSchema.superRefine(({ name }, ctx) => {
+        if (taken.has(name.trim().toLowerCase())) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: 'You already have a house with this name' });
+        }
+    });
+};
+
+export type HouseFormData = z.infer<typeof houseFields>;
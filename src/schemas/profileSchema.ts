@@ -0,0 +1,23 @@
+import * as z from 'zod';
+
+export const profileSchema = z.object({
+    firstName: z.string().min(1, 'First name is required'),
+    lastName: z.string().min(1, 'Last name is required'),
+    email: z.string().email('Invalid email address'),
+    phoneNumber: z.string().optional(),
+    address: z.string().optional(),
+});
+
+export const changePasswordSchema = z
+    .object({
+        currentPassword: z.string().min(1, 'Current password is required'),
+        newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+        confirmPassword: z.string(),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    });
+
+export type ProfileFormData = z.infer<typeof profileSchema>;
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
@@ -0,0 +1,16 @@
+import * as z from 'zod';
+import { checkFloorHeight, dimensionFields } from './houseSchema';
+
+const { width, length, height, floors } = dimensionFields.shape;
+
+// The default dimensions follow the rules of a house, so the create form accepts them as they are
+export const settingsSchema = z.object({
+    unitSystem: z.enum(['metric', 'imperial']),
+    theme: z.enum(['light', 'dark', 'system']),
+    defaultWidth: width,
+    defaultLength: length,
+    defaultHeight: height,
+    defaultFloors: floors,
+}).superRefine(({ defaultHeight, defaultFloors }, ctx) => checkFloorHeight(defaultHeight, defaultFloors, ctx, 'defaultHeight'));
+
+export type SettingsFormData = z.infer<typeof settingsSchema>;
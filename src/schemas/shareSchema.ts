@@ -0,0 +1,10 @@
+import * as z from 'zod';
+
+export const inviteSchema = z.object({
+    email: z.string().trim().email('Invalid email address'),
+    role: z.enum(['editor', 'viewer']),
+});
+
+export const INVITE_FIELDS = inviteSchema.keyof().options;
+
+export type InviteFormData = z.infer<typeof inviteSchema>;
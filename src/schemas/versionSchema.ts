@@ -0,0 +1,9 @@
+import * as z from 'zod';
+
+export const snapshotSchema = z.object({
+    name: z.string().trim().min(1, 'Snapshot name is required').max(100, 'Snapshot name must be at most 100 characters'),
+});
+
+export const SNAPSHOT_FIELDS = snapshotSchema.keyof().options;
+
+export type SnapshotFormData = z.infer<typeof snapshotSchema>;
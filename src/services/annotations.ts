@@ -0,0 +1,37 @@
+import api from '../Api';
+import { Annotation, AnnotationComment, ScenePoint } from '../types/annotation';
+import { setQueryData } from './queryCache';
+
+export const annotationKeys = {
+    list: (houseId: number) => `annotations/${houseId}`,
+};
+
+export const fetchAnnotations = async (houseId: number) => {
+    const response = await api.get<Annotation[]>(`/houses/${houseId}/annotations/`);
+    return response.data;
+};
+
+const updateAnnotations = (houseId: number, updater: (annotations: Annotation[]) => Annotation[]) => {
+    setQueryData<Annotation[]>(annotationKeys.list(houseId), (annotations) => updater(annotations ?? []));
+};
+
+// A pin always starts with the comment that explains it
+export const createAnnotation = async (houseId: number, position: ScenePoint, label: string, body: string, mentions: string[]) => {
+    const response = await api.post<Annotation>(`/houses/${houseId}/annotations/`, { position, label, body, mentions });
+    updateAnnotations(houseId, (annotations) => [...annotations, response.data]);
+    return response.data;
+};
+
+export const addComment = async (houseId: number, annotationId: number, body: string, mentions: string[]) => {
+    const response = await api.post<AnnotationComment>(`/houses/${houseId}/annotations/${annotationId}/comments/`, { body, mentions });
+    updateAnnotations(houseId, (annotations) => annotations.map((item) => (
+        item.id === annotationId ? { ...item, comments: [...item.comments, response.data] } : item
+    )));
+    return response.data;
+};
+
+export const setAnnotationResolved = async (houseId: number, annotationId: number, resolved: boolean) => {
+    const response = await api.patch<Annotation>(`/houses/${houseId}/annotations/${annotationId}/`, { resolved });
+    updateAnnotations(houseId, (annotations) => annotations.map((item) => (item.id === annotationId ? response.data : item)));
+    return response.data;
+};
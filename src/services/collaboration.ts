@@ -0,0 +1,130 @@
+import api from '../Api';
+import { ClientMessage, Collaborator, ConnectionStatus, ServerMessage } from '../types/collaboration';
+
+export interface ChannelHandlers {
+    onMessage: (message: ServerMessage) => void;
+    onStatusChange: (status: ConnectionStatus) => void;
+}
+
+// The live channel of one house: messages sent go to everyone else who has it open
+export interface CollaborationChannel {
+    send: (message: ClientMessage) => void;
+    close: () => void;
+}
+
+// Where the channel runs: the API's WebSocket server, or an in-memory stand-in
+export interface CollaborationSource {
+    connect: (houseId: number, clientId: string, handlers: ChannelHandlers) => CollaborationChannel;
+}
+
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+// Same host as the API. Browsers cannot set headers on WebSockets, so the token goes in the query.
+const getSocketUrl = (houseId: number, clientId: string) => {
+    const url = new URL(`/ws/houses/${houseId}/`, api.defaults.baseURL);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('client', clientId);
+    url.searchParams.set('token', localStorage.getItem('accessToken') ?? '');
+    return url.toString();
+};
+
+// Reconnects with a growing delay. Messages sent while disconnected are dropped: on reconnecting,
+// everyone shows up as joining again and catches up through the snapshots peers send to newcomers.
+const socketSource: CollaborationSource = {
+    connect: (houseId, clientId, { onMessage, onStatusChange }) => {
+        let socket: WebSocket | null = null;
+        let retryDelay = MIN_RETRY_DELAY;
+        let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+        let closed = false;
+
+        const open = () => {
+            onStatusChange('connecting');
+            socket = new WebSocket(getSocketUrl(houseId, clientId));
+            socket.onopen = () => {
+                retryDelay = MIN_RETRY_DELAY;
+                onStatusChange('connected');
+            };
+            socket.onmessage = (event) => {
+                try {
+                    onMessage(JSON.parse(event.data) as ServerMessage);
+                } catch (error) {
+                    console.error('Error reading collaboration message:', error);
+                }
+            };
+            socket.onclose = () => {
+                if (closed) return;
+                onStatusChange('offline');
+                retryTimeout = setTimeout(open, retryDelay);
+                retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+            };
+        };
+        open();
+
+        return {
+            send: (message) => {
+                if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+            },
+            close: () => {
+                closed = true;
+                clearTimeout(retryTimeout);
+                socket?.close();
+            },
+        };
+    },
+};
+
+interface LocalClient {
+    user: Collaborator;
+    deliver: (message: ServerMessage) => void;
+}
+
+// Relays messages between the clients of each house like the WebSocket server does, with a
+// made-up email per client. Delivery is asynchronous, as over the network.
+export const createLocalServer = () => {
+    const rooms = new Map<number, Map<string, LocalClient>>();
+    let guests = 0;
+
+    const broadcast = (houseId: number, message: ServerMessage, exceptClientId?: string) => {
+        rooms.get(houseId)?.forEach((client) => {
+            if (client.user.clientId !== exceptClientId) setTimeout(() => client.deliver(message), 0);
+        });
+    };
+
+    const broadcastPresence = (houseId: number) => {
+        const users = Array.from(rooms.get(houseId)?.values() ?? [], (client) => client.user);
+        broadcast(houseId, { type: 'presence', users });
+    };
+
+    const join = (houseId: number, clientId: string, deliver: LocalClient['deliver']) => {
+        guests += 1;
+        const room = rooms.get(houseId) ?? new Map<string, LocalClient>();
+        rooms.set(houseId, room);
+        room.set(clientId, { user: { clientId, email: `guest${guests}@example.com` }, deliver });
+        broadcastPresence(houseId);
+
+        return {
+            send: (message: ClientMessage) => {
+                if (room.has(clientId)) broadcast(houseId, { ...message, from: clientId }, clientId);
+            },
+            leave: () => {
+                room.delete(clientId);
+                broadcastPresence(houseId);
+            },
+        };
+    };
+
+    return { join };
+};
+
+export const createLocalSource = (server = createLocalServer()): CollaborationSource => ({
+    connect: (houseId, clientId, { onMessage, onStatusChange }) => {
+        const connection = server.join(houseId, clientId, onMessage);
+        onStatusChange('connected');
+        return { send: connection.send, close: connection.leave };
+    },
+});
+
+// Set VITE_COLLABORATION_SOURCE=local in .env.local to work on live editing without the backend
+export const collaborationSource: CollaborationSource =
+    import.meta.env.DEV && import.meta.env.VITE_COLLABORATION_SOURCE === 'local' ? createLocalSource() : socketSource;
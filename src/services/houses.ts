@@ -0,0 +1,225 @@
+import axios, { AxiosResponse } from 'axios';
+import api, { getEtag } from '../Api';
+import { EMPTY_DESIGN, HouseDesign } from '../types/design';
+import { House, HouseInput } from '../types/house';
+import { Paginated } from '../types/pagination';
+import { isForbidden, isPreconditionFailed } from '../utils/apiErrors';
+import { toPage } from '../utils/houseQuery';
+import {
+    fetchQuery,
+    getQueriesData,
+    getQueryData,
+    invalidateQueries,
+    removeQuery,
+    restoreQueries,
+    setQueryData,
+    snapshotQueries,
+} from './queryCache';
+import { isNetworkError, queueMutation } from './syncQueue';
+import { invalidateVersions } from './versions';
+
+// Cache keys: lists by their API query string, details by id
+export const houseKeys = {
+    all: 'houses/',
+    lists: 'houses/list',
+    list: (params: string) => `houses/list?${params}`,
+    sharedLists: 'houses/shared',
+    sharedList: (params: string) => `houses/shared?${params}`,
+    detail: (id: number | string) => `houses/${id}`,
+};
+
+const ALL_LISTS = [houseKeys.lists, houseKeys.sharedLists];
+
+// Enough to cover every house of a user in one request, e.g. to check names are free
+export const NAME_CHECK_PARAMS = 'page_size=1000';
+
+export const fetchHouses = async (params: string) => {
+    const response = await api.get<Paginated<House> | House[]>(`/houses/?${params}`);
+    return toPage(response.data, params);
+};
+
+// Houses other users shared with the current one, whatever their role
+export const fetchSharedHouses = async (params: string) => {
+    const response = await api.get<Paginated<House> | House[]>(`/houses/shared/?${params}`);
+    return toPage(response.data, params);
+};
+
+// Version of each house as last fetched or saved, so an edit made from an outdated copy is refused.
+// Houses only seen in lists have none and are saved unconditionally.
+const etags = new Map<number, string>();
+
+const rememberEtag = (id: number, response: AxiosResponse) => {
+    const etag = getEtag(response);
+    if (etag) {
+        etags.set(id, etag);
+    } else {
+        etags.delete(id);
+    }
+};
+
+export const fetchHouse = async (id: number | string) => {
+    const response = await api.get<House>(`/houses/${id}/`);
+    rememberEtag(Number(id), response);
+    return response.data;
+};
+
+// The saved design of a house, empty for a house nobody has designed yet
+export const fetchHouseDesign = async (id: number) => {
+    try {
+        const response = await api.get<Partial<HouseDesign>>(`/houses/${id}/design/`);
+        return { ...EMPTY_DESIGN, ...response.data };
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) return EMPTY_DESIGN;
+        throw error;
+    }
+};
+
+// The copy of a house held by a cached list, to show while its own request is out
+export const findCachedHouse = (id: number) => {
+    for (const [, page] of ALL_LISTS.flatMap((prefix) => getQueriesData<Paginated<House>>(prefix))) {
+        const house = page.results.find((item) => item.id === id);
+        if (house) return house;
+    }
+    return getQueryData<House>(houseKeys.detail(id));
+};
+
+const updateLists = (updater: (page: Paginated<House>, params: URLSearchParams) => Paginated<House>, prefixes = ALL_LISTS) => {
+    prefixes.flatMap((prefix) => getQueriesData<Paginated<House>>(prefix)).forEach(([key, page]) => {
+        setQueryData(key, updater(page, new URLSearchParams(key.split('?')[1] ?? '')));
+    });
+};
+
+const invalidateLists = () => ALL_LISTS.forEach(invalidateQueries);
+
+// A 403 means the user's role changed or the house was unshared: ask again what they may do.
+// A 412 means someone else saved the house first: fetch their version.
+const handleRefusal = (error: unknown, id: number) => {
+    if (isForbidden(error) || isPreconditionFailed(error)) invalidateQueries(houseKeys.detail(id));
+};
+
+// The mutations below change the cache first and put it back if the API refuses the change.
+// Lists are then refetched since the change may move the house to another page or out of a filter.
+// Offline, the change stays in the cache and is queued until the connection returns.
+
+export const createHouse = async (input: HouseInput) => {
+    const snapshot = snapshotQueries(houseKeys.all);
+    // Negative ids never clash with the API's
+    const placeholder: House = { ...input, id: -Date.now() };
+    updateLists((page, params) => {
+        const isFirstPage = (params.get('page') ?? '1') === '1';
+        return isFirstPage ? { ...page, count: page.count + 1, results: [placeholder, ...page.results] } : page;
+    }, [houseKeys.lists]);
+
+    try {
+        const response = await api.post<House>('/houses/', input);
+        updateLists((page) => ({ ...page, results: page.results.map((house) => (house.id === placeholder.id ? response.data : house)) }), [houseKeys.lists]);
+        setQueryData(houseKeys.detail(response.data.id), response.data);
+        invalidateQueries(houseKeys.lists);
+        return response.data;
+    } catch (error) {
+        if (isNetworkError(error)) {
+            await queueMutation({ type: 'createHouse', houseId: placeholder.id, payload: input }, input.name);
+            return placeholder;
+        }
+        restoreQueries(snapshot);
+        invalidateQueries(houseKeys.lists);
+        throw error;
+    }
+};
+
+export const updateHouse = async (id: number, input: HouseInput) => {
+    const snapshot = snapshotQueries(houseKeys.all);
+    const current = findCachedHouse(id);
+    const optimistic: House = { ...current, ...input, id };
+    setQueryData(houseKeys.detail(id), optimistic);
+    updateLists((page) => ({ ...page, results: page.results.map((house) => (house.id === id ? optimistic : house)) }));
+
+    try {
+        const etag = etags.get(id);
+        const response = await api.put<House>(`/houses/${id}/`, input, { headers: etag ? { 'If-Match': etag } : undefined });
+        rememberEtag(id, response);
+        invalidateVersions(id);
+        setQueryData(houseKeys.detail(id), response.data);
+        updateLists((page) => ({ ...page, results: page.results.map((house) => (house.id === id ? response.data : house)) }));
+        invalidateLists();
+        return response.data;
+    } catch (error) {
+        if (isNetworkError(error)) {
+            await queueMutation({ type: 'updateHouse', houseId: id, payload: input, base: current ?? null }, input.name);
+            return optimistic;
+        }
+        restoreQueries(snapshot);
+        invalidateLists();
+        handleRefusal(error, id);
+        throw error;
+    }
+};
+
+export const deleteHouse = async (id: number) => {
+    const snapshot = snapshotQueries(houseKeys.all);
+    const current = findCachedHouse(id);
+    removeQuery(houseKeys.detail(id));
+    updateLists((page) =>
+        page.results.some((house) => house.id === id)
+            ? { ...page, count: page.count - 1, results: page.results.filter((house) => house.id !== id) }
+            : page
+    );
+
+    try {
+        await api.delete(`/houses/${id}/`);
+        etags.delete(id);
+        invalidateLists();
+    } catch (error) {
+        if (isNetworkError(error)) {
+            await queueMutation({ type: 'deleteHouse', houseId: id, base: current ?? null }, current?.name ?? `House ${id}`);
+            return;
+        }
+        restoreQueries(snapshot);
+        invalidateLists();
+        handleRefusal(error, id);
+        throw error;
+    }
+};
+
+// A new house with a design already in it, e.g. a duplicate or a house started from a template.
+// Offline, the design is queued after the house and follows it to its real id. Once the house
+// exists it is kept even if the API refuses the design, so `designSaved` tells the caller.
+export const createHouseWithDesign = async (input: HouseInput, design: HouseDesign) => {
+    const house = await createHouse(input);
+    const saveDesign = { type: 'saveDesign', houseId: house.id, payload: design, base: EMPTY_DESIGN } as const;
+    if (house.id < 0) {
+        await queueMutation(saveDesign, input.name);
+        return { house, designSaved: true };
+    }
+
+    try {
+        await api.put(`/houses/${house.id}/design/`, design);
+    } catch (error) {
+        if (!isNetworkError(error)) {
+            console.error('Error saving design of new house:', error);
+            return { house, designSaved: false };
+        }
+        await queueMutation(saveDesign, input.name);
+    }
+    return { house, designSaved: true };
+};
+
+// "Lake House (copy)", then "Lake House (copy 2)" and so on, since names must be unique
+const getCopyName = (name: string, taken: Set<string>) => {
+    let copyName = `${name} (copy)`;
+    for (let index = 2; taken.has(copyName.toLowerCase()); index += 1) {
+        copyName = `${name} (copy ${index})`;
+    }
+    return copyName;
+};
+
+// Copies the house with its saved design: rooms, doors and windows, materials and furniture
+export const duplicateHouse = async (house: House) => {
+    const [design, allHouses] = await Promise.all([
+        fetchHouseDesign(house.id),
+        fetchQuery(houseKeys.list(NAME_CHECK_PARAMS), () => fetchHouses(NAME_CHECK_PARAMS)),
+    ]);
+    const taken = new Set(allHouses.results.map((item) => item.name.toLowerCase()));
+    const { width, length, height, floors } = house;
+    return createHouseWithDesign({ name: getCopyName(house.name, taken), width, length, height, floors }, design);
+};
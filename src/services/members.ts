@@ -0,0 +1,34 @@
+import api from '../Api';
+import { HouseMember, InvitedRole } from '../types/sharing';
+import { setQueryData } from './queryCache';
+
+export const memberKeys = {
+    list: (houseId: number) => `members/${houseId}`,
+};
+
+export const fetchMembers = async (houseId: number) => {
+    const response = await api.get<HouseMember[]>(`/houses/${houseId}/members/`);
+    return response.data;
+};
+
+const updateMembers = (houseId: number, updater: (members: HouseMember[]) => HouseMember[]) => {
+    setQueryData<HouseMember[]>(memberKeys.list(houseId), (members) => updater(members ?? []));
+};
+
+// Invitations go out by email, so the user does not need an account yet
+export const inviteMember = async (houseId: number, email: string, role: InvitedRole) => {
+    const response = await api.post<HouseMember>(`/houses/${houseId}/members/`, { email, role });
+    updateMembers(houseId, (members) => [...members, response.data]);
+    return response.data;
+};
+
+export const updateMemberRole = async (houseId: number, memberId: number, role: InvitedRole) => {
+    const response = await api.patch<HouseMember>(`/houses/${houseId}/members/${memberId}/`, { role });
+    updateMembers(houseId, (members) => members.map((member) => (member.id === memberId ? response.data : member)));
+    return response.data;
+};
+
+export const removeMember = async (houseId: number, memberId: number) => {
+    await api.delete(`/houses/${houseId}/members/${memberId}/`);
+    updateMembers(houseId, (members) => members.filter((member) => member.id !== memberId));
+};
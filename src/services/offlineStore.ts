@@ -0,0 +1,64 @@
+import { Draft, PendingMutation } from '../types/sync';
+
+// IndexedDB database keeping drafts and queued changes across reloads
+const DB_NAME = 'interior-design';
+const DB_VERSION = 1;
+const DRAFTS = 'drafts';
+const MUTATIONS = 'mutations';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(DRAFTS);
+            request.result.createObjectStore(MUTATIONS, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return database;
+};
+
+// Runs one request in its own transaction and resolves once the transaction is committed
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const getDraft = <T>(key: string) => run<Draft<T> | undefined>(DRAFTS, 'readonly', (store) => store.get(key));
+
+export const saveDraft = <T>(key: string, value: T, base?: T | null) =>
+    run<void>(DRAFTS, 'readwrite', (store) => store.put({ value, base, savedAt: new Date().toISOString() } satisfies Draft<T>, key));
+
+export const deleteDraft = (key: string) => run<void>(DRAFTS, 'readwrite', (store) => store.delete(key));
+
+export const getMutations = () => run<PendingMutation[]>(MUTATIONS, 'readonly', (store) => store.getAll());
+
+export const addMutation = (mutation: Omit<PendingMutation, 'id'>) =>
+    run<number>(MUTATIONS, 'readwrite', (store) => store.add(mutation));
+
+export const putMutation = (mutation: PendingMutation) => run<number>(MUTATIONS, 'readwrite', (store) => store.put(mutation));
+
+export const deleteMutation = (id: number) => run<void>(MUTATIONS, 'readwrite', (store) => store.delete(id));
+
+// Drops the drafts and queued changes of the user logging out, in one transaction
+export const clearOfflineStore = async () => {
+    const db = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([DRAFTS, MUTATIONS], 'readwrite');
+        transaction.objectStore(DRAFTS).clear();
+        transaction.objectStore(MUTATIONS).clear();
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
@@ -0,0 +1,106 @@
+// In-memory cache of API responses shared by every page, keyed by strings like "houses/12"
+export interface QueryState<T = unknown> {
+    data: T | undefined;
+    error: unknown;
+    updatedAt: number; // 0 until fetched, and again once invalidated
+    fetching: boolean;
+    version: number; // Bumped on invalidation, so mounted queries know to refetch
+}
+
+type Listener = () => void;
+
+// How long a response is served without asking the server again
+export const STALE_TIME = 30_000;
+
+const EMPTY_STATE: QueryState = { data: undefined, error: null, updatedAt: 0, fetching: false, version: 0 };
+
+// States are replaced rather than changed, so readers can compare them by identity
+const states = new Map<string, QueryState>();
+const requests = new Map<string, Promise<unknown>>();
+const listeners = new Map<string, Set<Listener>>();
+
+const update = (key: string, changes: Partial<QueryState>) => {
+    states.set(key, { ...(states.get(key) ?? EMPTY_STATE), ...changes });
+    listeners.get(key)?.forEach((listener) => listener());
+};
+
+const matchingKeys = (prefix: string) => Array.from(states.keys()).filter((key) => key.startsWith(prefix));
+
+export const subscribe = (key: string, listener: Listener) => {
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+    return () => {
+        listeners.get(key)?.delete(listener);
+    };
+};
+
+export const getQueryState = <T>(key: string) => (states.get(key) ?? EMPTY_STATE) as QueryState<T>;
+
+export const getQueryData = <T>(key: string) => getQueryState<T>(key).data;
+
+export const isStale = (key: string, staleTime = STALE_TIME) => Date.now() - getQueryState(key).updatedAt > staleTime;
+
+// Every key starting with the prefix that holds data, e.g. all cached pages of the houses list
+export const getQueriesData = <T>(prefix: string) =>
+    matchingKeys(prefix)
+        .filter((key) => states.get(key)!.data !== undefined)
+        .map((key) => [key, states.get(key)!.data as T] as const);
+
+// Fetches through the cache: callers asking for the same key at the same time share one request
+export const fetchQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+    const pending = requests.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request: Promise<T> = fetcher().then(
+        (data) => {
+            // A write made while the request was out (optimistic update, invalidation) wins over its response
+            if (requests.get(key) === request) {
+                requests.delete(key);
+                update(key, { data, error: null, updatedAt: Date.now(), fetching: false });
+            }
+            return data;
+        },
+        (error) => {
+            if (requests.get(key) === request) {
+                requests.delete(key);
+                update(key, { error, fetching: false });
+            }
+            throw error;
+        }
+    );
+
+    requests.set(key, request);
+    update(key, { fetching: true });
+    return request;
+};
+
+export const setQueryData = <T>(key: string, updater: T | undefined | ((current: T | undefined) => T | undefined)) => {
+    const current = getQueryData<T>(key);
+    const data = typeof updater === 'function' ? (updater as (current: T | undefined) => T | undefined)(current) : updater;
+    requests.delete(key);
+    update(key, { data, error: null, fetching: false });
+};
+
+// Marks the matching keys as stale; mounted queries refetch them right away
+export const invalidateQueries = (prefix: string) => {
+    matchingKeys(prefix).forEach((key) => {
+        requests.delete(key);
+        update(key, { updatedAt: 0, fetching: false, version: getQueryState(key).version + 1 });
+    });
+};
+
+export const removeQuery = (key: string) => {
+    requests.delete(key);
+    states.delete(key);
+    listeners.get(key)?.forEach((listener) => listener());
+};
+
+// Copy of the matching entries' data, to put back when an optimistic update fails
+export const snapshotQueries = (prefix: string) => new Map<string, unknown>(getQueriesData(prefix));
+
+export const restoreQueries = (snapshot: Map<string, unknown>) => {
+    snapshot.forEach((data, key) => setQueryData(key, data));
+};
+
+// Forgets everything, e.g. when the user logs out
+export const clearQueryCache = () => matchingKeys('').forEach(removeQuery);
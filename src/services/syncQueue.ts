@@ -0,0 +1,213 @@
+import axios from 'axios';
+import api from '../Api';
+import { EMPTY_DESIGN, HouseDesign } from '../types/design';
+import { House } from '../types/house';
+import { MutationChange, PendingMutation } from '../types/sync';
+import { isSameDesign } from '../utils/designOps';
+import { addMutation, deleteMutation, getMutations, putMutation } from './offlineStore';
+import { invalidateQueries } from './queryCache';
+
+export interface SyncState {
+    online: boolean;
+    syncing: boolean;
+    pending: PendingMutation[];
+}
+
+type Listener = () => void;
+
+// The browser only reports losing the network, not an unreachable server, so retry now and then
+const RETRY_INTERVAL = 30_000;
+
+// Thrown while replaying a change whose house was changed on the server in the meantime
+class SyncConflictError extends Error {}
+
+let state: SyncState = { online: navigator.onLine, syncing: false, pending: [] };
+const listeners = new Set<Listener>();
+let errorHandler: ((message: string) => void) | null = null;
+
+const setState = (changes: Partial<SyncState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener());
+};
+
+export const subscribeSync = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const getSyncState = () => state;
+
+// Forgets the queue of the user logging out; the stored copy goes with clearOfflineStore
+export const resetSync = () => setState({ online: navigator.onLine, syncing: false, pending: [] });
+
+// False once a change had to be queued, until the server answers again
+export const isOnline = () => state.online;
+
+export const OFFLINE_MESSAGE = 'You are offline. Your change is kept on this device and will be sent once the connection returns.';
+
+// Registered by the SyncProvider so changes the API rejects on replay reach the user
+export const setSyncErrorHandler = (handler: ((message: string) => void) | null) => {
+    errorHandler = handler;
+};
+
+// The request never got an answer: the device is offline or the server is unreachable
+export const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response;
+
+export const queueMutation = async (change: MutationChange, label: string) => {
+    const mutation = { ...change, label, createdAt: new Date().toISOString(), conflict: false };
+    const id = await addMutation(mutation);
+    setState({ online: false, pending: [...state.pending, { ...mutation, id }] });
+};
+
+const HOUSE_FIELDS = ['name', 'width', 'length', 'height', 'floors'] as const;
+
+const isSameHouse = (a: House, b: House) => HOUSE_FIELDS.every((field) => a[field] === b[field]);
+
+const fetchServerDesign = async (houseId: number) => {
+    try {
+        const response = await api.get<HouseDesign>(`/houses/${houseId}/design/`);
+        return response.data;
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) return EMPTY_DESIGN;
+        throw error;
+    }
+};
+
+// Sends one change to the API; `force` skips the conflict check once the user chose their version
+const replayMutation = async (mutation: PendingMutation, force: boolean) => {
+    switch (mutation.type) {
+        case 'createHouse': {
+            const response = await api.post<House>('/houses/', mutation.payload);
+            return response.data.id;
+        }
+        case 'updateHouse': {
+            if (!force && mutation.base) {
+                const response = await api.get<House>(`/houses/${mutation.houseId}/`);
+                if (!isSameHouse(response.data, mutation.base)) throw new SyncConflictError();
+            }
+            await api.put(`/houses/${mutation.houseId}/`, mutation.payload);
+            return mutation.houseId;
+        }
+        case 'deleteHouse': {
+            try {
+                await api.delete(`/houses/${mutation.houseId}/`);
+            } catch (error) {
+                // Already gone is what we wanted
+                if (!(axios.isAxiosError(error) && error.response?.status === 404)) throw error;
+            }
+            return mutation.houseId;
+        }
+        case 'saveDesign': {
+            // Without a base the design was started while the server's could not be loaded
+            if (!force && !isSameDesign(await fetchServerDesign(mutation.houseId), mutation.base ?? EMPTY_DESIGN)) {
+                throw new SyncConflictError();
+            }
+            await api.put(`/houses/${mutation.houseId}/design/`, mutation.payload);
+            return mutation.houseId;
+        }
+    }
+};
+
+const removeFromQueue = async (id: number) => {
+    await deleteMutation(id);
+    setState({ pending: state.pending.filter((mutation) => mutation.id !== id) });
+};
+
+// Later changes to a house created offline refer to it by its temporary id
+const replaceHouseId = async (temporaryId: number, houseId: number) => {
+    const changed = state.pending.filter((mutation) => mutation.houseId === temporaryId);
+    await Promise.all(changed.map((mutation) => putMutation({ ...mutation, houseId })));
+    setState({ pending: state.pending.map((mutation) => (mutation.houseId === temporaryId ? { ...mutation, houseId } : mutation)) });
+};
+
+// Replays the queued changes in order. A conflict holds back the later changes of the same
+// house until the user resolves it; losing the connection again stops the replay.
+export const replayQueue = async () => {
+    if (state.syncing || state.pending.length === 0) return;
+
+    setState({ syncing: true });
+    const blockedHouses = new Set<number>();
+    let replayed = false; // Whether the server answered for at least one change
+    try {
+        for (const queued of [...state.pending]) {
+            // Ids may have been replaced by an earlier create in this loop
+            const mutation = state.pending.find((item) => item.id === queued.id);
+            if (!mutation) continue;
+            if (mutation.conflict || blockedHouses.has(mutation.houseId)) {
+                blockedHouses.add(mutation.houseId);
+                continue;
+            }
+
+            try {
+                const houseId = await replayMutation(mutation, false);
+                replayed = true;
+                await removeFromQueue(mutation.id);
+                if (mutation.type === 'createHouse') await replaceHouseId(mutation.houseId, houseId);
+            } catch (error) {
+                if (isNetworkError(error)) {
+                    setState({ online: false });
+                    return;
+                }
+                replayed = true;
+                if (error instanceof SyncConflictError) {
+                    const flagged = { ...mutation, conflict: true };
+                    await putMutation(flagged);
+                    setState({ pending: state.pending.map((item) => (item.id === mutation.id ? flagged : item)) });
+                } else {
+                    console.error('Error replaying offline change:', error);
+                    await removeFromQueue(mutation.id);
+                    errorHandler?.(`Your offline change to "${mutation.label}" was rejected by the server and has been discarded.`);
+                }
+                blockedHouses.add(mutation.houseId);
+            }
+        }
+        // The server answered, so it is reachable again
+        if (replayed) setState({ online: true });
+    } finally {
+        setState({ syncing: false });
+        // Swap the cached copies made offline for the server's
+        if (replayed) invalidateQueries('houses/');
+    }
+};
+
+// Settles a conflict: either apply the offline change over the server's version, or drop it
+export const resolveConflict = async (id: number, keep: 'mine' | 'server') => {
+    const mutation = state.pending.find((item) => item.id === id);
+    if (!mutation) return;
+
+    if (keep === 'mine') {
+        await replayMutation(mutation, true);
+    }
+    await removeFromQueue(id);
+    invalidateQueries('houses/');
+    await replayQueue();
+};
+
+// Loads the queue left from an earlier visit and replays it whenever the connection returns
+export const startSync = () => {
+    const handleOnline = () => {
+        setState({ online: true });
+        replayQueue();
+    };
+    const handleOffline = () => setState({ online: false });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const interval = setInterval(() => {
+        if (navigator.onLine) replayQueue();
+    }, RETRY_INTERVAL);
+    getMutations()
+        .then((pending) => {
+            setState({ pending });
+            if (navigator.onLine) replayQueue();
+        })
+        .catch((error) => console.error('Error loading offline changes:', error));
+
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        clearInterval(interval);
+    };
+};
@@ -0,0 +1,39 @@
+import api from '../Api';
+import { HouseDesign } from '../types/design';
+import { House } from '../types/house';
+import { HouseTemplate } from '../types/template';
+import { fetchHouseDesign } from './houses';
+import { setQueryData } from './queryCache';
+
+export const templateKeys = {
+    list: 'templates/list',
+};
+
+// The user's own templates; the built-in ones ship with the app
+export const fetchTemplates = async () => {
+    const response = await api.get<HouseTemplate[]>('/templates/');
+    return response.data;
+};
+
+const updateTemplates = (updater: (templates: HouseTemplate[]) => HouseTemplate[]) => {
+    setQueryData<HouseTemplate[]>(templateKeys.list, (templates) => updater(templates ?? []));
+};
+
+export const createTemplate = async (name: string, description: string, house: HouseTemplate['house'], design: HouseDesign) => {
+    const response = await api.post<HouseTemplate>('/templates/', { name, description, house, design });
+    updateTemplates((templates) => [...templates, response.data]);
+    return response.data;
+};
+
+// Saves the house's dimensions and saved design for new projects to start from
+export const saveHouseAsTemplate = async (house: House, name: string) => {
+    const design = await fetchHouseDesign(house.id);
+    const { width, length, height, floors } = house;
+    const description = `${width} × ${length} m, ${floors} ${floors === 1 ? 'floor' : 'floors'}`;
+    return createTemplate(name, description, { width, length, height, floors }, design);
+};
+
+export const deleteTemplate = async (id: number | string) => {
+    await api.delete(`/templates/${id}/`);
+    updateTemplates((templates) => templates.filter((template) => template.id !== id));
+};
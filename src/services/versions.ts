@@ -0,0 +1,33 @@
+import api from '../Api';
+import { EMPTY_DESIGN, HouseDesign } from '../types/design';
+import { HouseInput } from '../types/house';
+import { HouseVersion, HouseVersionSummary } from '../types/version';
+import { invalidateQueries, setQueryData } from './queryCache';
+
+export const versionKeys = {
+    list: (houseId: number | string) => `versions/${houseId}/list`,
+    detail: (houseId: number | string, versionId: number) => `versions/${houseId}/${versionId}`,
+};
+
+// Newest first, without their contents
+export const fetchVersions = async (houseId: number) => {
+    const response = await api.get<HouseVersionSummary[]>(`/houses/${houseId}/versions/`);
+    return response.data;
+};
+
+export const fetchVersion = async (houseId: number, versionId: number) => {
+    const response = await api.get<HouseVersion>(`/houses/${houseId}/versions/${versionId}/`);
+    return { ...response.data, design: { ...EMPTY_DESIGN, ...response.data.design } };
+};
+
+// Saves the house as it is on screen, unsaved design edits included
+export const createSnapshot = async (houseId: number, name: string, house: HouseInput, design: HouseDesign) => {
+    const response = await api.post<HouseVersion>(`/houses/${houseId}/versions/`, { name, house, design });
+    const { id, created_by, created_at } = response.data;
+    setQueryData<HouseVersionSummary[]>(versionKeys.list(houseId), (versions) => [{ id, name: response.data.name, created_by, created_at }, ...(versions ?? [])]);
+    setQueryData(versionKeys.detail(houseId, id), response.data);
+    return response.data;
+};
+
+// Saves add an automatic version
+export const invalidateVersions = (houseId: number | string) => invalidateQueries(versionKeys.list(houseId));
@@ -0,0 +1,21 @@
+// A point of the 3D scene, in scene coordinates (meters, origin at the center of the ground floor)
+export type ScenePoint = [number, number, number];
+
+export interface AnnotationComment {
+    id: number;
+    author_email: string;
+    body: string;
+    mentions: string[]; // Emails of the users @mentioned, who the API notifies
+    created_at: string;
+}
+
+// A pin dropped on the model with the discussion about that spot
+export interface Annotation {
+    id: number;
+    position: ScenePoint;
+    label: string; // What was clicked, e.g. "Ground floor, north wall"
+    resolved: boolean;
+    created_by: string;
+    created_at: string;
+    comments: AnnotationComment[];
+}
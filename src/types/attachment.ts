@@ -0,0 +1,10 @@
+// A file stored with a house; `file` is the URL the API serves it from
+export interface Attachment {
+    id: number;
+    name: string;
+    file: string;
+    content_type: string;
+    size: number;
+    kind: 'model' | 'document';
+    created_at: string;
+}
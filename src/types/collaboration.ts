@@ -0,0 +1,50 @@
+import { ScenePoint } from './annotation';
+import { EstimateSettings, FurnitureItem, HouseDesign, Opening, Room } from './design';
+
+// Lamport timestamp of an edit. Edits are ordered by counter, ties broken by client id,
+// so every copy of the design picks the same winner for concurrent edits.
+export interface Stamp {
+    counter: number;
+    clientId: string;
+}
+
+export interface DesignCollections {
+    rooms: Room;
+    furniture: FurnitureItem;
+    openings: Opening;
+}
+
+export type DesignCollection = keyof DesignCollections;
+
+// One change to the design, small enough to merge with others made at the same time:
+// the last edit of an entry (a room, a surface's material, ...) wins
+export type DesignOp =
+    | { [C in DesignCollection]: { kind: 'put'; collection: C; item: DesignCollections[C]; stamp: Stamp } }[DesignCollection]
+    | { kind: 'remove'; collection: DesignCollection; id: string; stamp: Stamp }
+    | { kind: 'setMaterial'; key: string; materialId: string | null; stamp: Stamp }
+    | { kind: 'setEstimate'; estimate: EstimateSettings | null; stamp: Stamp };
+
+// Someone with the house open, one per tab
+export interface Collaborator {
+    clientId: string;
+    email: string;
+}
+
+// Where a collaborator's pointer is on the model
+export interface RemoteCursor {
+    user: Collaborator;
+    position: ScenePoint;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'offline';
+
+// Sent to everyone else in the house's channel
+export type ClientMessage =
+    | { type: 'ops'; ops: DesignOp[] }
+    | { type: 'cursor'; position: ScenePoint | null } // Null when the pointer leaves the model
+    | { type: 'saved'; design: HouseDesign; etag: string | null }
+    | { type: 'house_changed' }; // Name or dimensions, to be fetched again
+
+export type ServerMessage =
+    | { type: 'presence'; users: Collaborator[] } // Everyone in the channel, including this client
+    | (ClientMessage & { from: string });
@@ -0,0 +1,78 @@
+// Plan coordinates in meters: x runs along the house width, z along its length,
+// with the origin at the house's corner (the 3D model centers them on the footprint).
+export type Point = [number, number];
+
+export interface Room {
+    id: string;
+    name: string;
+    floor: number;
+    points: Point[];
+}
+
+export interface FurnitureItem {
+    id: string;
+    type: string;     // Key of the catalog entry the piece was created from
+    name: string;
+    floor: number;
+    position: Point;  // Center of the piece on the plan
+    rotation: number; // Radians, turning the x axis towards the z axis
+    width: number;
+    depth: number;
+    height: number;
+    color: string;
+}
+
+export type ExteriorSide = 'north' | 'east' | 'south' | 'west';
+
+// A wall is either one side of the house outline or one edge of a room polygon
+export type WallRef =
+    | { kind: 'exterior'; side: ExteriorSide }
+    | { kind: 'room'; roomId: string; edge: number };
+
+export type OpeningType = 'door' | 'window';
+
+export interface Opening {
+    id: string;
+    type: OpeningType;
+    floor: number;
+    wall: WallRef;
+    offset: number;     // Distance from the start of the wall to the opening's edge
+    width: number;
+    height: number;
+    sillHeight: number; // Distance from the floor to the bottom of the opening
+}
+
+export type SurfaceKind = 'floor' | 'wall' | 'ceiling';
+
+// A surface of the model that can be given a material: a floor's finish, its ceiling or one of its walls
+export type SurfaceRef =
+    | { kind: 'floor'; floor: number }
+    | { kind: 'ceiling'; floor: number }
+    | { kind: 'wall'; floor: number; wall: WallRef };
+
+export interface EstimateSelection {
+    materialId: string;
+    unitPrice: number; // Per square meter, in the estimate's currency
+}
+
+export interface EstimateSettings {
+    currency: string;
+    selections: Record<SurfaceKind, EstimateSelection>;
+}
+
+// Everything the designers add on top of the house's outer dimensions
+export interface HouseDesign {
+    rooms: Room[];
+    furniture: FurnitureItem[];
+    openings: Opening[];
+    estimate: EstimateSettings | null; // Null until the designer picks materials to price
+    surfaceMaterials: Record<string, string>; // Material library ids, keyed by getSurfaceKey
+}
+
+export const EMPTY_DESIGN: HouseDesign = {
+    rooms: [],
+    furniture: [],
+    openings: [],
+    estimate: null,
+    surfaceMaterials: {},
+};
@@ -0,0 +1,13 @@
+import { HouseDesign } from './design';
+import { HouseInput } from './house';
+
+// One step of the details page's undo history. Both sides are kept whole, so undoing
+// puts back exactly what was there, whatever happened to the other fields since.
+export type EditCommand =
+    | { target: 'design'; label: string; before: HouseDesign; after: HouseDesign; recordedAt: number }
+    | { target: 'house'; label: string; before: HouseInput; after: HouseInput; recordedAt: number };
+
+export interface EditHistory {
+    past: EditCommand[];
+    future: EditCommand[];
+}
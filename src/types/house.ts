@@ -0,0 +1,16 @@
+import { HouseRole } from './sharing';
+
+// A house as stored by the API; dimensions are in meters, `height` covering all floors
+export interface House {
+    id: number;
+    name: string;
+    width: number;
+    length: number;
+    height: number;
+    floors: number;
+    role?: HouseRole; // The current user's, left out for their own houses
+    owner_email?: string; // Set on houses shared with the current user
+}
+
+// What the create and update endpoints accept
+export type HouseInput = Omit<House, 'id' | 'role' | 'owner_email'>;
@@ -0,0 +1,11 @@
+export type NotificationType = 'house_shared' | 'attachment_uploaded' | 'comment_added' | 'mentioned' | 'estimate_ready';
+
+export interface AppNotification {
+    id: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link: string | null; // Page the notification is about, e.g. the house that was shared
+    read: boolean;
+    created_at: string;
+}
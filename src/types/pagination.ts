@@ -0,0 +1,7 @@
+// Page of results as returned by the API's paginated list endpoints
+export interface Paginated<T> {
+    count: number;
+    next: string | null;
+    previous: string | null;
+    results: T[];
+}
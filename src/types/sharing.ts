@@ -0,0 +1,14 @@
+// What a user may do with a house: owners also share and delete it, editors change it
+// and its design, viewers (e.g. clients) only look
+export type HouseRole = 'owner' | 'editor' | 'viewer';
+
+// Roles an owner can hand out; every house has exactly one owner
+export type InvitedRole = Exclude<HouseRole, 'owner'>;
+
+// A user a house is shared with
+export interface HouseMember {
+    id: number;
+    email: string;
+    role: InvitedRole;
+    accepted: boolean; // False until the invited user signs up or accepts
+}
@@ -0,0 +1,25 @@
+import { HouseDesign } from './design';
+import { House, HouseInput } from './house';
+
+// A change made while the API could not be reached, replayed once the connection returns.
+// `base` is the server's copy the change was made on: if the server no longer has it,
+// someone else changed the house in the meantime and the user decides which version wins.
+export type MutationChange =
+    | { type: 'createHouse'; houseId: number; payload: HouseInput } // houseId is the temporary negative id
+    | { type: 'updateHouse'; houseId: number; payload: HouseInput; base: House | null }
+    | { type: 'deleteHouse'; houseId: number; base: House | null }
+    | { type: 'saveDesign'; houseId: number; payload: HouseDesign; base: HouseDesign | null };
+
+export type PendingMutation = MutationChange & {
+    id: number;
+    label: string; // Name of the house, for the sync menu
+    createdAt: string;
+    conflict: boolean;
+};
+
+// Unsaved edits kept on the device, e.g. a half-filled house form
+export interface Draft<T> {
+    value: T;
+    base?: T | null; // Server copy the edits started from
+    savedAt: string;
+}
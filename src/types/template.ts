@@ -0,0 +1,11 @@
+import { HouseDesign } from './design';
+import { HouseInput } from './house';
+
+// A starting point for new houses: the built-in gallery, or a house a user saved as a template
+export interface HouseTemplate {
+    id: number | string; // Strings for the built-in templates, the API's ids for the user's own
+    name: string;
+    description: string;
+    house: Omit<HouseInput, 'name'>; // Dimensions the new house starts with
+    design: HouseDesign;
+}
@@ -0,0 +1,31 @@
+import { UnitSystem } from '../utils/units';
+
+// Account fields collected by the registration form
+export interface UserProfile {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phoneNumber?: string | null;
+    address?: string | null;
+}
+
+export type Theme = 'light' | 'dark' | 'system';
+
+export interface UserSettings {
+    unitSystem: UnitSystem;
+    theme: Theme;
+    defaultWidth: number;  // Prefilled in the new house form, in meters
+    defaultLength: number;
+    defaultHeight: number;
+    defaultFloors: number;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+    unitSystem: 'metric',
+    theme: 'light',
+    defaultWidth: 10,
+    defaultLength: 12,
+    defaultHeight: 3,
+    defaultFloors: 1,
+};
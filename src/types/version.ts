@@ -0,0 +1,23 @@
+import { HouseDesign } from './design';
+import { HouseInput } from './house';
+
+// An entry of a house's timeline. The API records one on every save of the house or its
+// design, and designers can save named snapshots, e.g. "Client review 1".
+export interface HouseVersionSummary {
+    id: number;
+    name: string | null; // Null for the automatic versions
+    created_by: string;  // Email of the user who saved it
+    created_at: string;
+}
+
+export interface HouseVersion extends HouseVersionSummary {
+    house: HouseInput;
+    design: HouseDesign;
+}
+
+// One side of a comparison: a saved version, or the house as it is on screen
+export interface VersionSide {
+    label: string;
+    house: HouseInput;
+    design: HouseDesign;
+}
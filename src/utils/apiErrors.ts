@@ -0,0 +1,70 @@
+import axios from 'axios';
+
+// Error bodies as sent by the API: a detail message, or messages per field for validation errors
+interface ApiErrorBody {
+    detail?: string;
+    non_field_errors?: string[];
+    [field: string]: unknown;
+}
+
+const NETWORK_ERROR = 'Cannot reach the server. Check your connection and try again.';
+
+// 401s only get here from the login and register calls, where the caller knows best what failed
+const STATUS_MESSAGES: Record<number, string> = {
+    403: 'You do not have permission to do that.',
+    404: 'This item could not be found. It may have been deleted.',
+    409: 'This item was changed by someone else. Reload and try again.',
+    412: 'Someone else changed this item since you opened it. Check their changes and try again.',
+    413: 'The file is too large to upload.',
+    429: 'Too many requests. Please wait a moment and try again.',
+};
+
+const SERVER_ERROR = 'The server ran into a problem. Please try again later.';
+
+// The user may no longer see or change the item, e.g. after losing access to a shared house
+export const isForbidden = (error: unknown) => axios.isAxiosError(error) && error.response?.status === 403;
+
+// A save sent with If-Match lost the race against someone else's
+export const isPreconditionFailed = (error: unknown) => axios.isAxiosError(error) && error.response?.status === 412;
+
+export const humanize = (field: string) => {
+    const words = field.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// First message of each field of a 400 response, keyed by field name as sent by the API
+export const getFieldErrors = (error: unknown): Record<string, string> => {
+    if (!axios.isAxiosError(error) || error.response?.status !== 400) return {};
+
+    const body = error.response.data as ApiErrorBody | undefined;
+    if (!body || typeof body !== 'object') return {};
+
+    const fieldErrors: Record<string, string> = {};
+    Object.entries(body).forEach(([field, value]) => {
+        if (field === 'detail' || field === 'non_field_errors') return;
+        const message = Array.isArray(value) ? value[0] : value;
+        if (typeof message === 'string') fieldErrors[field] = message;
+    });
+    return fieldErrors;
+};
+
+// Message to show the user for a failed request, falling back to a description of what failed
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+    if (!axios.isAxiosError(error)) return fallback;
+    if (!error.response) return NETWORK_ERROR;
+
+    const { status } = error.response;
+    const body = error.response.data as ApiErrorBody | undefined;
+    const detail = typeof body?.detail === 'string' ? body.detail : body?.non_field_errors?.[0];
+
+    if (status === 400) {
+        const fieldErrors = Object.entries(getFieldErrors(error));
+        if (detail) return detail;
+        if (fieldErrors.length > 0) {
+            return fieldErrors.map(([field, message]) => `${humanize(field)}: ${message}`).join(' ');
+        }
+        return fallback;
+    }
+    if (status >= 500) return SERVER_ERROR;
+    return detail ?? STATUS_MESSAGES[status] ?? fallback;
+};
@@ -0,0 +1,32 @@
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// Mood boards, sketches and quotes: images and PDFs
+export const ATTACHMENT_TYPES: Record<string, string> = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/webp': '.webp',
+    'image/gif': '.gif',
+    'image/svg+xml': '.svg',
+    'application/pdf': '.pdf',
+};
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why the file cannot be attached, or null when it is fine
+export const validateAttachment = (file: File): string | null => {
+    if (!ATTACHMENT_TYPES[file.type]) {
+        return `${file.name}: only images and PDF files can be attached`;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+        return `${file.name}: files must be smaller than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+    }
+    return null;
+};
+
+export const isImage = (contentType: string) => contentType.startsWith('image/');
+
+export const isPdf = (contentType: string) => contentType === 'application/pdf';
@@ -0,0 +1,20 @@
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+];
+
+// "3 minutes ago", "yesterday"... or "just now" under a minute
+export const formatRelativeTime = (date: string | Date, now = new Date()) => {
+    const seconds = Math.round((new Date(date).getTime() - now.getTime()) / 1000);
+    const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+    for (const [unit, size] of UNITS) {
+        if (Math.abs(seconds) >= size) {
+            return format.format(Math.trunc(seconds / size), unit);
+        }
+    }
+    return 'just now';
+};
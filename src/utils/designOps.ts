@@ -0,0 +1,110 @@
+import { DesignCollection, DesignCollections, DesignOp, Stamp } from '../types/collaboration';
+import { EMPTY_DESIGN, HouseDesign } from '../types/design';
+
+// An op before it is stamped by the client that makes it
+type Unstamped<O> = O extends DesignOp ? Omit<O, 'stamp'> : never;
+export type DesignChange = Unstamped<DesignOp>;
+
+// Latest op applied to each entry of the design, keyed by getOpPath
+export type DesignClock = Map<string, DesignOp>;
+
+const COLLECTIONS: DesignCollection[] = ['rooms', 'furniture', 'openings'];
+
+// Sorts object keys, so copies built locally and returned by the API compare equal whatever their key order
+const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value === null || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, normalize((value as Record<string, unknown>)[key])]));
+};
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const compareStamps = (a: Stamp, b: Stamp) => {
+    if (a.counter !== b.counter) return a.counter - b.counter;
+    if (a.clientId === b.clientId) return 0;
+    return a.clientId < b.clientId ? -1 : 1;
+};
+
+// The entry of the design an op changes: concurrent ops on different entries both apply
+export const getOpPath = (op: DesignChange) => {
+    switch (op.kind) {
+        case 'put':
+            return `${op.collection}/${op.item.id}`;
+        case 'remove':
+            return `${op.collection}/${op.id}`;
+        case 'setMaterial':
+            return `surfaceMaterials/${op.key}`;
+        case 'setEstimate':
+            return 'estimate';
+    }
+};
+
+const diffCollection = <C extends DesignCollection>(collection: C, before: DesignCollections[C][], after: DesignCollections[C][]) => {
+    if (before === after) return [];
+
+    const previous = new Map(before.map((item) => [item.id, item]));
+    const kept = new Set(after.map((item) => item.id));
+    const changes = after
+        .filter((item) => !isSame(previous.get(item.id), item))
+        .map((item) => ({ kind: 'put', collection, item }) as DesignChange);
+    before.forEach((item) => {
+        if (!kept.has(item.id)) changes.push({ kind: 'remove', collection, id: item.id });
+    });
+    return changes;
+};
+
+// The ops turning one design into the other, entry by entry
+export const diffDesign = (before: HouseDesign, after: HouseDesign): DesignChange[] => {
+    const changes = COLLECTIONS.flatMap((collection) => diffCollection(collection, before[collection], after[collection]));
+
+    const keys = new Set([...Object.keys(before.surfaceMaterials), ...Object.keys(after.surfaceMaterials)]);
+    keys.forEach((key) => {
+        if (before.surfaceMaterials[key] !== after.surfaceMaterials[key]) {
+            changes.push({ kind: 'setMaterial', key, materialId: after.surfaceMaterials[key] ?? null });
+        }
+    });
+
+    if (!isSame(before.estimate, after.estimate)) {
+        changes.push({ kind: 'setEstimate', estimate: after.estimate });
+    }
+    return changes;
+};
+
+// Same entries with the same values; missing parts count as empty
+export const isSameDesign = (a: HouseDesign, b: HouseDesign) =>
+    diffDesign({ ...EMPTY_DESIGN, ...a }, { ...EMPTY_DESIGN, ...b }).length === 0;
+
+const putItem = <T extends { id: string }>(list: T[], item: T) =>
+    list.some((entry) => entry.id === item.id) ? list.map((entry) => (entry.id === item.id ? item : entry)) : [...list, item];
+
+export const applyDesignOps = (design: HouseDesign, ops: DesignChange[]) =>
+    ops.reduce<HouseDesign>((current, op) => {
+        switch (op.kind) {
+            case 'put':
+                return { ...current, [op.collection]: putItem<{ id: string }>(current[op.collection], op.item) };
+            case 'remove':
+                return { ...current, [op.collection]: current[op.collection].filter((item) => item.id !== op.id) };
+            case 'setMaterial': {
+                const surfaceMaterials = { ...current.surfaceMaterials };
+                if (op.materialId) {
+                    surfaceMaterials[op.key] = op.materialId;
+                } else {
+                    delete surfaceMaterials[op.key];
+                }
+                return { ...current, surfaceMaterials };
+            }
+            case 'setEstimate':
+                return { ...current, estimate: op.estimate };
+        }
+    }, design);
+
+// Last-writer-wins: keeps the ops newer than the latest op seen for their entry and records them.
+// Removals are kept in the clock too, so an older edit arriving late does not bring an entry back.
+export const acceptOps = (clock: DesignClock, ops: DesignOp[]) =>
+    ops.filter((op) => {
+        const path = getOpPath(op);
+        const latest = clock.get(path);
+        if (latest && compareStamps(op.stamp, latest.stamp) <= 0) return false;
+        clock.set(path, op);
+        return true;
+    });
@@ -0,0 +1,93 @@
+import { Line, Material, Mesh, Object3D } from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+
+export type ExportFormat = 'glb' | 'gltf' | 'obj' | 'stl';
+
+// glTF is always in meters; OBJ and STL carry no units, so CAD tools need to be told
+export type ExportUnit = 'm' | 'cm' | 'mm';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    unit: ExportUnit;
+    zUp: boolean; // CAD tools usually expect Z up, Three.js and glTF use Y up
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+    { value: 'glb', label: 'glTF binary (.glb)' },
+    { value: 'gltf', label: 'glTF (.gltf)' },
+    { value: 'obj', label: 'Wavefront (.obj)' },
+    { value: 'stl', label: 'Stereolithography (.stl)' },
+];
+
+export const UNIT_SCALE: Record<ExportUnit, number> = { m: 1, cm: 100, mm: 1000 };
+
+// Export only what makes up the house: outlines and invisible helpers stay in the viewer
+const isExportable = (object: Object3D) => {
+    if (!object.visible || object.userData.exportable === false || (object as Line).isLine) {
+        return false;
+    }
+    const mesh = object as Mesh;
+    if (mesh.isMesh) {
+        const materials: Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        return materials.some((material) => material.visible && material.opacity > 0);
+    }
+    return true;
+};
+
+const prepareForExport = (root: Object3D, { format, unit, zUp }: ExportOptions) => {
+    const copy = root.clone(true);
+
+    const removed: Object3D[] = [];
+    copy.traverse((object) => {
+        if (object !== copy && !isExportable(object)) {
+            removed.push(object);
+        }
+    });
+    removed.forEach((object) => object.removeFromParent());
+
+    const wrapper = new Object3D();
+    wrapper.name = root.name || 'house';
+    wrapper.add(copy);
+    if (format === 'obj' || format === 'stl') {
+        wrapper.scale.setScalar(UNIT_SCALE[unit]);
+        if (zUp) {
+            wrapper.rotation.x = Math.PI / 2;
+        }
+    }
+    wrapper.updateMatrixWorld(true);
+    return wrapper;
+};
+
+export const exportModel = async (root: Object3D, options: ExportOptions): Promise<Blob> => {
+    const object = prepareForExport(root, options);
+
+    switch (options.format) {
+        case 'glb':
+        case 'gltf': {
+            const result = await new GLTFExporter().parseAsync(object, { binary: options.format === 'glb' });
+            return result instanceof ArrayBuffer
+                ? new Blob([result], { type: 'model/gltf-binary' })
+                : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+        }
+        case 'obj':
+            return new Blob([new OBJExporter().parse(object)], { type: 'text/plain' });
+        case 'stl':
+            return new Blob([new STLExporter().parse(object, { binary: true })], { type: 'model/stl' });
+    }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const getExportFileName = (houseName: string, { format, unit }: ExportOptions) => {
+    const slug = houseName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'house';
+    return format === 'obj' || format === 'stl' ? `${slug}-${unit}.${format}` : `${slug}.${format}`;
+};
@@ -0,0 +1,48 @@
+export type FloorViewMode = 'isolate' | 'highlight' | 'ghost';
+
+export interface FloorLevel {
+    index: number;
+    elevation: number; // Height of the floor slab above ground, in meters
+    height: number;    // Floor-to-floor height, in meters
+}
+
+export interface FloorAppearance {
+    visible: boolean;
+    opacity: number;
+    highlighted: boolean;
+}
+
+export const SLAB_THICKNESS = 0.2;
+
+// The house record stores the total height, shared equally between its floors
+export const getFloorLevels = (height: number, floors: number): FloorLevel[] => {
+    const count = Math.max(1, Math.floor(floors) || 1);
+    const floorHeight = height / count;
+
+    return Array.from({ length: count }, (_, index) => ({
+        index,
+        elevation: index * floorHeight,
+        height: floorHeight,
+    }));
+};
+
+export const getFloorLabel = (index: number) => (index === 0 ? 'Ground floor' : `Floor ${index}`);
+
+export const getFloorAppearance = (
+    index: number,
+    selectedFloor: number | null,
+    mode: FloorViewMode
+): FloorAppearance => {
+    if (selectedFloor === null || index === selectedFloor) {
+        return { visible: true, opacity: 1, highlighted: selectedFloor !== null && mode === 'highlight' };
+    }
+
+    switch (mode) {
+        case 'isolate':
+            return { visible: false, opacity: 0, highlighted: false };
+        case 'ghost':
+            return { visible: true, opacity: 0.15, highlighted: false };
+        case 'highlight':
+            return { visible: true, opacity: 0.6, highlighted: false };
+    }
+};
@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { getErrorMessage, getFieldErrors, humanize } from './apiErrors';
+
+// Errors of a rejected submit, split between the form's own fields and the form as a whole
+export interface ServerFormErrors<F extends string> {
+    fieldErrors: Partial<Record<F, string>>;
+    formError: string | null;
+}
+
+// Form-level errors of react-hook-form forms are read back as `errors.root?.server`
+const SERVER_ERROR_KEY = 'root.server';
+
+// The API answers in snake_case (first_name) while the forms use camelCase (firstName)
+const toCamelCase = (field: string) => field.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+export const mapServerErrors = <F extends string>(error: unknown, fields: readonly F[], fallback: string): ServerFormErrors<F> => {
+    const fieldErrors: Partial<Record<F, string>> = {};
+    const unmatched: string[] = [];
+
+    Object.entries(getFieldErrors(error)).forEach(([field, message]) => {
+        const name = fields.find((candidate) => candidate === field || candidate === toCamelCase(field));
+        if (name) {
+            fieldErrors[name] = message;
+        } else {
+            unmatched.push(`${humanize(field)}: ${message}`);
+        }
+    });
+
+    const body = axios.isAxiosError(error) ? (error.response?.data as { detail?: unknown; non_field_errors?: unknown } | undefined) : undefined;
+    const hasDetail = typeof body?.detail === 'string' || Array.isArray(body?.non_field_errors);
+    const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+
+    let formError: string | null = null;
+    if (hasDetail || !hasFieldErrors) {
+        formError = getErrorMessage(error, fallback);
+    } else if (unmatched.length > 0) {
+        formError = unmatched.join(' ');
+    }
+    return { fieldErrors, formError };
+};
+
+// Puts the errors of a rejected submit on the matching fields, and the rest on the form
+export const setServerErrors = <T extends FieldValues>(
+    error: unknown,
+    setError: UseFormSetError<T>,
+    fields: readonly Path<T>[],
+    fallback: string
+) => {
+    const { fieldErrors, formError } = mapServerErrors(error, fields, fallback);
+
+    (Object.entries(fieldErrors) as [Path<T>, string][]).forEach(([field, message], index) => {
+        setError(field, { type: 'server', message }, { shouldFocus: index === 0 });
+    });
+    if (formError) {
+        setError(SERVER_ERROR_KEY, { type: 'server', message: formError });
+    }
+};
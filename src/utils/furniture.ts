@@ -0,0 +1,93 @@
+import { FurnitureItem, Point } from '../types/design';
+import { polygonsOverlap } from './geometry';
+
+export interface FurnitureCatalogEntry {
+    type: string;
+    name: string;
+    width: number;
+    depth: number;
+    height: number;
+    color: string;
+}
+
+// Parametric pieces, dimensions in meters
+export const FURNITURE_CATALOG: FurnitureCatalogEntry[] = [
+    { type: 'sofa', name: 'Sofa', width: 2.2, depth: 0.9, height: 0.85, color: '#6b7280' },
+    { type: 'armchair', name: 'Armchair', width: 0.9, depth: 0.85, height: 0.85, color: '#9ca3af' },
+    { type: 'bed', name: 'Double bed', width: 1.6, depth: 2.1, height: 0.5, color: '#e5e7eb' },
+    { type: 'single-bed', name: 'Single bed', width: 0.9, depth: 2.0, height: 0.5, color: '#e5e7eb' },
+    { type: 'table', name: 'Dining table', width: 1.8, depth: 0.9, height: 0.75, color: '#92400e' },
+    { type: 'coffee-table', name: 'Coffee table', width: 1.1, depth: 0.6, height: 0.45, color: '#b45309' },
+    { type: 'chair', name: 'Chair', width: 0.45, depth: 0.5, height: 0.9, color: '#78350f' },
+    { type: 'desk', name: 'Desk', width: 1.4, depth: 0.7, height: 0.75, color: '#a16207' },
+    { type: 'wardrobe', name: 'Wardrobe', width: 1.8, depth: 0.6, height: 2.2, color: '#d6d3d1' },
+    { type: 'bookcase', name: 'Bookcase', width: 0.9, depth: 0.35, height: 2.0, color: '#a8a29e' },
+];
+
+export const ROTATION_STEP = Math.PI / 2;
+
+export const createFurniture = (entry: FurnitureCatalogEntry, floor: number, position: Point): FurnitureItem => ({
+    id: crypto.randomUUID(),
+    type: entry.type,
+    name: entry.name,
+    floor,
+    position,
+    rotation: 0,
+    width: entry.width,
+    depth: entry.depth,
+    height: entry.height,
+    color: entry.color,
+});
+
+export const normalizeRotation = (rotation: number) => {
+    const fullTurn = Math.PI * 2;
+    return ((rotation % fullTurn) + fullTurn) % fullTurn;
+};
+
+// Corners of the piece as seen from above, in plan coordinates
+export const getFurnitureFootprint = ({ position, rotation, width, depth }: FurnitureItem): Point[] => {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const corners: Point[] = [[-width / 2, -depth / 2], [width / 2, -depth / 2], [width / 2, depth / 2], [-width / 2, depth / 2]];
+
+    return corners.map(([x, z]) => [position[0] + x * cos - z * sin, position[1] + x * sin + z * cos]);
+};
+
+// Moves the piece back inside the house walls, keeping its rotation
+export const clampToHouse = (item: FurnitureItem, width: number, length: number): FurnitureItem => {
+    const footprint = getFurnitureFootprint(item);
+    const xs = footprint.map(([x]) => x);
+    const zs = footprint.map(([, z]) => z);
+
+    const shift = (min: number, max: number, limit: number) => {
+        if (max - min > limit) return limit / 2 - (min + max) / 2;
+        if (min < 0) return -min;
+        if (max > limit) return limit - max;
+        return 0;
+    };
+
+    return {
+        ...item,
+        position: [
+            item.position[0] + shift(Math.min(...xs), Math.max(...xs), width),
+            item.position[1] + shift(Math.min(...zs), Math.max(...zs), length),
+        ],
+    };
+};
+
+// Ids of the pieces overlapping another piece on the same floor
+export const findCollisions = (furniture: FurnitureItem[]) => {
+    const colliding = new Set<string>();
+
+    furniture.forEach((item, index) => {
+        const footprint = getFurnitureFootprint(item);
+        furniture.slice(index + 1)
+            .filter((other) => other.floor === item.floor && polygonsOverlap(footprint, getFurnitureFootprint(other)))
+            .forEach((other) => {
+                colliding.add(item.id);
+                colliding.add(other.id);
+            });
+    });
+
+    return colliding;
+};
@@ -0,0 +1,109 @@
+import { Point } from '../types/design';
+
+const EPSILON = 1e-9;
+
+// Shoelace formula; positive for counter-clockwise polygons
+export const signedPolygonArea = (points: Point[]) => {
+    let area = 0;
+    points.forEach(([x1, z1], i) => {
+        const [x2, z2] = points[(i + 1) % points.length];
+        area += x1 * z2 - x2 * z1;
+    });
+    return area / 2;
+};
+
+export const polygonArea = (points: Point[]) => Math.abs(signedPolygonArea(points));
+
+export const polygonCentroid = (points: Point[]): Point => {
+    const area = signedPolygonArea(points);
+    if (Math.abs(area) < EPSILON) {
+        const sum = points.reduce(([sx, sz], [x, z]) => [sx + x, sz + z], [0, 0]);
+        return [sum[0] / points.length, sum[1] / points.length];
+    }
+
+    let cx = 0;
+    let cz = 0;
+    points.forEach(([x1, z1], i) => {
+        const [x2, z2] = points[(i + 1) % points.length];
+        const cross = x1 * z2 - x2 * z1;
+        cx += (x1 + x2) * cross;
+        cz += (z1 + z2) * cross;
+    });
+    return [cx / (6 * area), cz / (6 * area)];
+};
+
+export const distance = ([x1, z1]: Point, [x2, z2]: Point) => Math.hypot(x2 - x1, z2 - z1);
+
+const orientation = ([ax, az]: Point, [bx, bz]: Point, [cx, cz]: Point) => {
+    const value = (bx - ax) * (cz - az) - (bz - az) * (cx - ax);
+    return Math.abs(value) < EPSILON ? 0 : Math.sign(value);
+};
+
+export const isPointOnSegment = (point: Point, a: Point, b: Point) =>
+    orientation(a, b, point) === 0 &&
+    point[0] >= Math.min(a[0], b[0]) - EPSILON && point[0] <= Math.max(a[0], b[0]) + EPSILON &&
+    point[1] >= Math.min(a[1], b[1]) - EPSILON && point[1] <= Math.max(a[1], b[1]) + EPSILON;
+
+// True when the segments cross each other; touching at an end or overlapping collinearly does not count
+export const segmentsCross = (a1: Point, a2: Point, b1: Point, b2: Point) => {
+    const o1 = orientation(a1, a2, b1);
+    const o2 = orientation(a1, a2, b2);
+    const o3 = orientation(b1, b2, a1);
+    const o4 = orientation(b1, b2, a2);
+    return o1 * o2 < 0 && o3 * o4 < 0;
+};
+
+export const isPointOnPolygonBoundary = (point: Point, polygon: Point[]) =>
+    polygon.some((a, i) => isPointOnSegment(point, a, polygon[(i + 1) % polygon.length]));
+
+// Ray casting; points on the boundary are not considered inside
+export const isPointInPolygon = (point: Point, polygon: Point[]) => {
+    if (isPointOnPolygonBoundary(point, polygon)) {
+        return false;
+    }
+
+    const [x, z] = point;
+    let inside = false;
+    polygon.forEach(([x1, z1], i) => {
+        const [x2, z2] = polygon[(i + 1) % polygon.length];
+        if ((z1 > z) !== (z2 > z) && x < ((x2 - x1) * (z - z1)) / (z2 - z1) + x1) {
+            inside = !inside;
+        }
+    });
+    return inside;
+};
+
+const samplePoints = (polygon: Point[]): Point[] => [
+    ...polygon,
+    ...polygon.map(([x1, z1], i): Point => {
+        const [x2, z2] = polygon[(i + 1) % polygon.length];
+        return [(x1 + x2) / 2, (z1 + z2) / 2];
+    }),
+    polygonCentroid(polygon),
+];
+
+// Whether the interiors of two simple polygons overlap; sharing a wall is fine
+export const polygonsOverlap = (a: Point[], b: Point[]) => {
+    const edgesCross = a.some((a1, i) => {
+        const a2 = a[(i + 1) % a.length];
+        return b.some((b1, j) => segmentsCross(a1, a2, b1, b[(j + 1) % b.length]));
+    });
+    if (edgesCross) {
+        return true;
+    }
+
+    return samplePoints(a).some((point) => isPointInPolygon(point, b)) ||
+        samplePoints(b).some((point) => isPointInPolygon(point, a));
+};
+
+// Whether a simple polygon has edges crossing each other
+export const isSelfIntersecting = (polygon: Point[]) =>
+    polygon.some((a1, i) => {
+        const a2 = polygon[(i + 1) % polygon.length];
+        return polygon.some((b1, j) => {
+            if (Math.abs(i - j) <= 1 || (i === 0 && j === polygon.length - 1) || (j === 0 && i === polygon.length - 1)) {
+                return false;
+            }
+            return segmentsCross(a1, a2, b1, polygon[(j + 1) % polygon.length]);
+        });
+    });
@@ -0,0 +1,119 @@
+import { House } from '../types/house';
+import { Paginated } from '../types/pagination';
+
+export type HouseOrdering = 'name' | '-name' | 'area' | '-area' | 'created_at' | '-created_at';
+
+// Search, filters, sorting and page of the houses list, as kept in the dashboard's URL
+export interface HouseQuery {
+    search: string;
+    floorsMin: number | null;
+    floorsMax: number | null;
+    areaMin: number | null; // Footprint area (width × length) in square meters
+    areaMax: number | null;
+    ordering: HouseOrdering;
+    page: number;
+}
+
+export const PAGE_SIZE = 10;
+
+export const DEFAULT_ORDERING: HouseOrdering = '-created_at';
+
+export const SORT_OPTIONS: { value: HouseOrdering; label: string }[] = [
+    { value: '-created_at', label: 'Newest first' },
+    { value: 'created_at', label: 'Oldest first' },
+    { value: 'name', label: 'Name (A-Z)' },
+    { value: '-name', label: 'Name (Z-A)' },
+    { value: '-area', label: 'Largest area' },
+    { value: 'area', label: 'Smallest area' },
+];
+
+// URL parameter of each field; the API accepts the same names
+const PARAMS: Record<Exclude<keyof HouseQuery, 'search' | 'ordering' | 'page'>, string> = {
+    floorsMin: 'floors_min',
+    floorsMax: 'floors_max',
+    areaMin: 'area_min',
+    areaMax: 'area_max',
+};
+
+const parseNumber = (value: string | null) => {
+    if (value === null || value.trim() === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+export const parseHouseQuery = (params: URLSearchParams): HouseQuery => {
+    const ordering = SORT_OPTIONS.find((option) => option.value === params.get('ordering'))?.value;
+    const page = Math.floor(parseNumber(params.get('page')) ?? 1);
+
+    return {
+        search: params.get('search') ?? '',
+        floorsMin: parseNumber(params.get(PARAMS.floorsMin)),
+        floorsMax: parseNumber(params.get(PARAMS.floorsMax)),
+        areaMin: parseNumber(params.get(PARAMS.areaMin)),
+        areaMax: parseNumber(params.get(PARAMS.areaMax)),
+        ordering: ordering ?? DEFAULT_ORDERING,
+        page: Math.max(1, page),
+    };
+};
+
+// Only non-default values go in the URL, so the plain dashboard keeps a clean address
+export const toSearchParams = (query: HouseQuery) => {
+    const params = new URLSearchParams();
+    if (query.search.trim()) params.set('search', query.search.trim());
+    (Object.keys(PARAMS) as (keyof typeof PARAMS)[]).forEach((field) => {
+        const value = query[field];
+        if (value !== null) params.set(PARAMS[field], String(value));
+    });
+    if (query.ordering !== DEFAULT_ORDERING) params.set('ordering', query.ordering);
+    if (query.page > 1) params.set('page', String(query.page));
+    return params;
+};
+
+export const toApiParams = (query: HouseQuery) => {
+    const params = toSearchParams(query);
+    params.set('ordering', query.ordering);
+    params.set('page_size', String(PAGE_SIZE));
+    return params;
+};
+
+export const hasFilters = (query: HouseQuery) =>
+    query.search.trim() !== '' || Object.keys(PARAMS).some((field) => query[field as keyof typeof PARAMS] !== null);
+
+export const getPageCount = (count: number) => Math.max(1, Math.ceil(count / PAGE_SIZE));
+
+type ListedHouse = Pick<House, 'id' | 'name' | 'width' | 'length' | 'floors'>;
+
+const isBetween = (value: number, min: number | null, max: number | null) =>
+    (min === null || value >= min) && (max === null || value <= max);
+
+// Houses have no creation date here, but ids grow with it
+const compareHouses = (ordering: HouseOrdering) => (a: ListedHouse, b: ListedHouse) => {
+    const field = ordering.replace('-', '');
+    const order = field === 'name'
+        ? a.name.localeCompare(b.name)
+        : field === 'area' ? a.width * a.length - b.width * b.length : a.id - b.id;
+    return ordering.startsWith('-') ? -order : order;
+};
+
+// Older API versions return the whole list instead of a page, ignoring the search, filters and paging:
+// those are applied here, so the dashboard shows the same houses either way
+export const toPage = <T extends ListedHouse>(data: Paginated<T> | T[], params: string): Paginated<T> => {
+    if (!Array.isArray(data)) return data;
+
+    const searchParams = new URLSearchParams(params);
+    const query = parseHouseQuery(searchParams);
+    const pageSize = parseNumber(searchParams.get('page_size')) || PAGE_SIZE;
+    const search = query.search.trim().toLowerCase();
+    const matches = data
+        .filter((house) => house.name.toLowerCase().includes(search))
+        .filter((house) => isBetween(house.floors, query.floorsMin, query.floorsMax))
+        .filter((house) => isBetween(house.width * house.length, query.areaMin, query.areaMax))
+        .sort(compareHouses(query.ordering));
+
+    return {
+        count: matches.length,
+        next: null,
+        previous: null,
+        results: matches.slice((query.page - 1) * pageSize, query.page * pageSize),
+    };
+};
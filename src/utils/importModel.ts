@@ -0,0 +1,52 @@
+import { Box3, Group, Object3D, Vector3 } from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+
+export const MODEL_EXTENSIONS = ['.glb', '.gltf', '.obj'];
+
+export const getFileExtension = (fileName: string) => {
+    const index = fileName.lastIndexOf('.');
+    return index === -1 ? '' : fileName.slice(index).toLowerCase();
+};
+
+export const isModelFile = (fileName: string) => MODEL_EXTENSIONS.includes(getFileExtension(fileName));
+
+// Parses the file in the browser; .gltf files must embed their buffers and textures
+export const parseModel = async (data: ArrayBuffer, fileName: string): Promise<Object3D> => {
+    switch (getFileExtension(fileName)) {
+        case '.glb':
+        case '.gltf': {
+            const gltf = await new GLTFLoader().parseAsync(data, '');
+            return gltf.scene;
+        }
+        case '.obj':
+            return new OBJLoader().parse(new TextDecoder().decode(data));
+        default:
+            throw new Error(`Unsupported model format: ${fileName}`);
+    }
+};
+
+// Wraps the model so it stands on the ground, centered on the footprint,
+// optionally scaled down or up to fit inside the house's bounding box
+export const fitModelToHouse = (model: Object3D, width: number, length: number, height: number, fitToHouse = true) => {
+    // A model fitted before is measured again as parsed, out of its previous wrapper
+    model.removeFromParent();
+    model.position.set(0, 0, 0);
+    model.updateMatrixWorld(true);
+
+    const bounds = new Box3().setFromObject(model);
+    const size = bounds.getSize(new Vector3());
+    const center = bounds.getCenter(new Vector3());
+
+    const scale = fitToHouse && size.x > 0 && size.y > 0 && size.z > 0
+        ? Math.min(width / size.x, height / size.y, length / size.z)
+        : 1;
+
+    model.position.set(-center.x, -bounds.min.y, -center.z);
+
+    const wrapper = new Group();
+    wrapper.name = 'imported-model';
+    wrapper.scale.setScalar(scale);
+    wrapper.add(model);
+    return wrapper;
+};
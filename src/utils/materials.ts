@@ -0,0 +1,53 @@
+import { SurfaceKind, SurfaceRef } from '../types/design';
+import { getWallKey } from './openings';
+
+export type MaterialCategory = 'paint' | 'wood' | 'tile' | 'concrete' | 'carpet';
+
+export interface LibraryMaterial {
+    id: string;
+    name: string;
+    category: MaterialCategory;
+    color: string;
+    tileSize: number;   // Meters of surface covered by one repeat of the texture
+    roughness: number;
+    surfaces: SurfaceKind[]; // Surfaces the material makes sense on
+}
+
+export const MATERIAL_CATEGORIES: { value: MaterialCategory; label: string }[] = [
+    { value: 'paint', label: 'Paint' },
+    { value: 'wood', label: 'Wood' },
+    { value: 'tile', label: 'Tile' },
+    { value: 'concrete', label: 'Concrete' },
+    { value: 'carpet', label: 'Carpet' },
+];
+
+const ALL_SURFACES: SurfaceKind[] = ['floor', 'wall', 'ceiling'];
+
+export const MATERIAL_LIBRARY: LibraryMaterial[] = [
+    { id: 'paint-white', name: 'Chalk white', category: 'paint', color: '#f8fafc', tileSize: 1, roughness: 0.9, surfaces: ['wall', 'ceiling'] },
+    { id: 'paint-sand', name: 'Sand', category: 'paint', color: '#e7d8b8', tileSize: 1, roughness: 0.9, surfaces: ['wall', 'ceiling'] },
+    { id: 'paint-sage', name: 'Sage green', category: 'paint', color: '#a3b18a', tileSize: 1, roughness: 0.9, surfaces: ['wall', 'ceiling'] },
+    { id: 'paint-sky', name: 'Sky blue', category: 'paint', color: '#93c5fd', tileSize: 1, roughness: 0.9, surfaces: ['wall', 'ceiling'] },
+    { id: 'paint-terracotta', name: 'Terracotta', category: 'paint', color: '#c2410c', tileSize: 1, roughness: 0.9, surfaces: ['wall'] },
+    { id: 'paint-charcoal', name: 'Charcoal', category: 'paint', color: '#374151', tileSize: 1, roughness: 0.9, surfaces: ['wall'] },
+    { id: 'wood-oak', name: 'Oak planks', category: 'wood', color: '#b7834a', tileSize: 1.2, roughness: 0.6, surfaces: ALL_SURFACES },
+    { id: 'wood-walnut', name: 'Walnut planks', category: 'wood', color: '#5c3a21', tileSize: 1.2, roughness: 0.55, surfaces: ALL_SURFACES },
+    { id: 'wood-birch', name: 'Birch planks', category: 'wood', color: '#dcc39b', tileSize: 1.2, roughness: 0.6, surfaces: ALL_SURFACES },
+    { id: 'tile-white', name: 'White ceramic', category: 'tile', color: '#f1f5f9', tileSize: 0.6, roughness: 0.3, surfaces: ['floor', 'wall'] },
+    { id: 'tile-slate', name: 'Slate', category: 'tile', color: '#475569', tileSize: 1.2, roughness: 0.5, surfaces: ['floor', 'wall'] },
+    { id: 'tile-terracotta', name: 'Terracotta tile', category: 'tile', color: '#b45309', tileSize: 0.8, roughness: 0.7, surfaces: ['floor'] },
+    { id: 'concrete-light', name: 'Light concrete', category: 'concrete', color: '#a8a29e', tileSize: 2, roughness: 0.85, surfaces: ALL_SURFACES },
+    { id: 'concrete-dark', name: 'Dark concrete', category: 'concrete', color: '#57534e', tileSize: 2, roughness: 0.85, surfaces: ALL_SURFACES },
+    { id: 'carpet-grey', name: 'Grey carpet', category: 'carpet', color: '#9ca3af', tileSize: 0.5, roughness: 1, surfaces: ['floor'] },
+    { id: 'carpet-beige', name: 'Beige carpet', category: 'carpet', color: '#d6c7a1', tileSize: 0.5, roughness: 1, surfaces: ['floor'] },
+];
+
+export const findMaterial = (id: string | undefined) =>
+    MATERIAL_LIBRARY.find((material) => material.id === id) ?? null;
+
+// Stable key of a surface, used to store its material in the design
+export const getSurfaceKey = (surface: SurfaceRef) =>
+    surface.kind === 'wall' ? `wall-${surface.floor}-${getWallKey(surface.wall)}` : `${surface.kind}-${surface.floor}`;
+
+export const getSurfaceMaterial = (surfaceMaterials: Record<string, string>, surface: SurfaceRef) =>
+    findMaterial(surfaceMaterials[getSurfaceKey(surface)]);
@@ -0,0 +1,29 @@
+// Mentions are written as "@" followed by the user's email, e.g. "@sam@example.com"
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[^\s@.,;:!?)]+)/g;
+
+// Emails mentioned in a comment, limited to the people the house is shared with
+export const findMentions = (body: string, people: string[]) => {
+    const known = new Set(people.map((email) => email.toLowerCase()));
+    const mentioned = Array.from(body.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+    return Array.from(new Set(mentioned.filter((email) => known.has(email))));
+};
+
+// Splits a comment into text and mentions, to highlight the mentions
+export const splitMentions = (body: string) => {
+    const parts: { text: string; mention: boolean }[] = [];
+    let last = 0;
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > last) parts.push({ text: body.slice(last, index), mention: false });
+        parts.push({ text: match[0], mention: true });
+        last = index + match[0].length;
+    }
+    if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+    return parts;
+};
+
+// The partial mention being typed just before the caret, e.g. "sa" for "Thanks @sa"
+export const getMentionQuery = (textBeforeCaret: string) => {
+    const match = /(?:^|\s)@([^\s]*)$/.exec(textBeforeCaret);
+    return match ? match[1] : null;
+};
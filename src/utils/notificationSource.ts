@@ -0,0 +1,100 @@
+import api from '../Api';
+import { AppNotification, NotificationType } from '../types/notification';
+import { Paginated } from '../types/pagination';
+
+// Where notifications come from: the API, or a local stand-in while developing without a backend
+export interface NotificationSource {
+    list: (page: number, pageSize: number) => Promise<Paginated<AppNotification>>;
+    getUnreadCount: () => Promise<number>;
+    markAsRead: (id: string) => Promise<void>;
+    markAllAsRead: () => Promise<void>;
+    subscribe: (onChange: () => void) => () => void; // Calls back whenever new notifications may have arrived
+}
+
+export const POLL_INTERVAL = 30000;
+
+const apiSource: NotificationSource = {
+    list: async (page, pageSize) => {
+        const response = await api.get<Paginated<AppNotification>>('/notifications/', { params: { page, page_size: pageSize } });
+        return response.data;
+    },
+    getUnreadCount: async () => {
+        const response = await api.get<{ count: number }>('/notifications/unread-count/');
+        return response.data.count;
+    },
+    markAsRead: async (id) => {
+        await api.post(`/notifications/${id}/read/`);
+    },
+    markAllAsRead: async () => {
+        await api.post('/notifications/read-all/');
+    },
+    // Poll while the tab is open, and check again as soon as the user comes back to it
+    subscribe: (onChange) => {
+        const interval = setInterval(onChange, POLL_INTERVAL);
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') onChange();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    },
+};
+
+const SAMPLES: { type: NotificationType; title: string; message: string }[] = [
+    { type: 'house_shared', title: 'House shared with you', message: 'Alex shared "Lake House" with you.' },
+    { type: 'attachment_uploaded', title: 'New attachment', message: 'A mood board was added to "Lake House".' },
+    { type: 'comment_added', title: 'New comment', message: 'Sam commented on the kitchen layout.' },
+    { type: 'mentioned', title: 'You were mentioned', message: 'Sam mentioned you on a pin in "Lake House".' },
+    { type: 'estimate_ready', title: 'Estimate ready', message: 'The cost estimate for "City Loft" was updated.' },
+];
+
+// In-memory notifications, with a new one arriving every minute
+const createLocalSource = (): NotificationSource => {
+    let notifications: AppNotification[] = [];
+    let next = 0;
+
+    const add = (minutesAgo = 0) => {
+        const sample = SAMPLES[next % SAMPLES.length];
+        next += 1;
+        notifications = [
+            {
+                id: `local-${next}`,
+                ...sample,
+                link: '/dashboard',
+                read: false,
+                created_at: new Date(Date.now() - minutesAgo * 60000).toISOString(),
+            },
+            ...notifications,
+        ];
+    };
+    [90, 45, 10].forEach(add);
+
+    return {
+        list: async (page, pageSize) => ({
+            count: notifications.length,
+            next: null,
+            previous: null,
+            results: notifications.slice((page - 1) * pageSize, page * pageSize),
+        }),
+        getUnreadCount: async () => notifications.filter((notification) => !notification.read).length,
+        markAsRead: async (id) => {
+            notifications = notifications.map((notification) => (notification.id === id ? { ...notification, read: true } : notification));
+        },
+        markAllAsRead: async () => {
+            notifications = notifications.map((notification) => ({ ...notification, read: true }));
+        },
+        subscribe: (onChange) => {
+            const interval = setInterval(() => {
+                add();
+                onChange();
+            }, 60000);
+            return () => clearInterval(interval);
+        },
+    };
+};
+
+// Set VITE_NOTIFICATIONS_SOURCE=local in .env.local to work on notifications without the backend
+export const notificationSource: NotificationSource =
+    import.meta.env.DEV && import.meta.env.VITE_NOTIFICATIONS_SOURCE === 'local' ? createLocalSource() : apiSource;
@@ -0,0 +1,247 @@
+import { ExteriorSide, Opening, OpeningType, Point, Room, WallRef } from '../types/design';
+import { distance } from './geometry';
+
+export interface Wall {
+    ref: WallRef;
+    label: string;
+    start: Point;
+    end: Point;
+}
+
+// Stretch of a wall that no earlier wall of the floor covers
+export interface WallPiece extends Wall {
+    from: number; // Distance of its start from the start of the whole wall
+}
+
+export interface OpeningIssue {
+    openingId: string;
+    message: string;
+}
+
+// Rectangle of solid wall, in wall coordinates: u along the wall from its start, v up from the floor
+export interface WallPanel {
+    u0: number;
+    u1: number;
+    v0: number;
+    v1: number;
+}
+
+export const OPENING_DEFAULTS: Record<OpeningType, Pick<Opening, 'width' | 'height' | 'sillHeight'>> = {
+    door: { width: 0.9, height: 2.1, sillHeight: 0 },
+    window: { width: 1.2, height: 1.2, sillHeight: 0.9 },
+};
+
+const WALL_PICK_DISTANCE = 0.5;
+
+// Walls closer than this (a millimetre) are on the same line
+const WALL_TOLERANCE = 1e-3;
+
+const EXTERIOR_SIDES: ExteriorSide[] = ['north', 'east', 'south', 'west'];
+
+const getExteriorWall = (side: ExteriorSide, width: number, length: number): [Point, Point] => {
+    switch (side) {
+        case 'north':
+            return [[0, 0], [width, 0]];
+        case 'east':
+            return [[width, 0], [width, length]];
+        case 'south':
+            return [[width, length], [0, length]];
+        case 'west':
+            return [[0, length], [0, 0]];
+    }
+};
+
+export const isSameWall = (a: WallRef, b: WallRef) =>
+    a.kind === 'exterior'
+        ? b.kind === 'exterior' && a.side === b.side
+        : b.kind === 'room' && a.roomId === b.roomId && a.edge === b.edge;
+
+export const getWallKey = (ref: WallRef) =>
+    ref.kind === 'exterior' ? `exterior-${ref.side}` : `room-${ref.roomId}-${ref.edge}`;
+
+// Every wall of a floor: the four sides of the house and the edges of its rooms
+export const getFloorWalls = (floor: number, rooms: Room[], width: number, length: number): Wall[] => [
+    ...EXTERIOR_SIDES.map((side): Wall => {
+        const [start, end] = getExteriorWall(side, width, length);
+        return { ref: { kind: 'exterior', side }, label: `${side[0].toUpperCase()}${side.slice(1)} exterior wall`, start, end };
+    }),
+    ...rooms
+        .filter((room) => room.floor === floor)
+        .flatMap((room) => room.points.map((start, edge): Wall => ({
+            ref: { kind: 'room', roomId: room.id, edge },
+            label: `${room.name || 'Room'}, wall ${edge + 1}`,
+            start,
+            end: room.points[(edge + 1) % room.points.length],
+        }))),
+];
+
+export const findWall = (ref: WallRef, floor: number, rooms: Room[], width: number, length: number) =>
+    getFloorWalls(floor, rooms, width, length).find((wall) => isSameWall(wall.ref, ref)) ?? null;
+
+export const getWallLength = (wall: Wall) => distance(wall.start, wall.end);
+
+// Point on the wall at a given distance from its start
+export const pointAlongWall = (wall: Wall, offset: number): Point => {
+    const t = offset / (getWallLength(wall) || 1);
+    return [wall.start[0] + (wall.end[0] - wall.start[0]) * t, wall.start[1] + (wall.end[1] - wall.start[1]) * t];
+};
+
+// Where a segment lies along a wall, from its start, or null when the segment is off the wall's line
+const getSpanAlongWall = (wall: Wall, [a, b]: [Point, Point]): [number, number] | null => {
+    const wallLength = getWallLength(wall) || 1;
+    const [dx, dz] = [(wall.end[0] - wall.start[0]) / wallLength, (wall.end[1] - wall.start[1]) / wallLength];
+    const project = (point: Point) => {
+        const [px, pz] = [point[0] - wall.start[0], point[1] - wall.start[1]];
+        return { along: px * dx + pz * dz, across: Math.abs(px * dz - pz * dx) };
+    };
+    const [pa, pb] = [project(a), project(b)];
+    if (pa.across > WALL_TOLERANCE || pb.across > WALL_TOLERANCE) return null;
+    return [Math.min(pa.along, pb.along), Math.max(pa.along, pb.along)];
+};
+
+// Rooms along the outline, and rooms next to each other, share walls: each stretch is kept once,
+// by the first wall that reaches it, so exterior walls win over room edges
+export const mergeFloorWalls = (walls: Wall[]): WallPiece[] => {
+    const pieces: WallPiece[] = [];
+
+    walls.forEach((wall) => {
+        const wallLength = getWallLength(wall);
+        if (wallLength <= WALL_TOLERANCE) return;
+
+        const covered = pieces
+            .map((piece) => getSpanAlongWall(wall, [piece.start, piece.end]))
+            .filter((span): span is [number, number] => span !== null)
+            .sort((a, b) => a[0] - b[0]);
+        let from = 0;
+        [...covered, [wallLength, wallLength]].forEach(([u0, u1]) => {
+            const to = Math.min(u0, wallLength);
+            if (to - from > WALL_TOLERANCE) {
+                pieces.push({ ...wall, start: pointAlongWall(wall, from), end: pointAlongWall(wall, to), from });
+            }
+            from = Math.max(from, u1);
+        });
+    });
+    return pieces;
+};
+
+// The openings cut into a piece, in its coordinates. Openings belong to one wall, but the piece
+// may stand in for walls on the same line, so every opening that overlaps it counts.
+export const getPieceOpenings = (piece: WallPiece, walls: Wall[], openings: Opening[]): Opening[] =>
+    openings.flatMap((opening) => {
+        const wall = walls.find((item) => isSameWall(item.ref, opening.wall));
+        const span = wall && getSpanAlongWall(piece, [
+            pointAlongWall(wall, opening.offset),
+            pointAlongWall(wall, opening.offset + opening.width),
+        ]);
+        if (!span) return [];
+
+        const u0 = Math.max(span[0], 0);
+        const u1 = Math.min(span[1], getWallLength(piece));
+        return u1 - u0 > WALL_TOLERANCE ? [{ ...opening, offset: u0, width: u1 - u0 }] : [];
+    });
+
+// The wall closest to a point on the plan, with the distance from its start to the projected point
+export const pickWall = <T extends Wall>(point: Point, walls: T[]): { wall: T; offset: number } | null => {
+    let best: { wall: T; offset: number; distance: number } | null = null;
+
+    for (const wall of walls) {
+        const wallLength = getWallLength(wall);
+        if (wallLength === 0) continue;
+
+        const [dx, dz] = [(wall.end[0] - wall.start[0]) / wallLength, (wall.end[1] - wall.start[1]) / wallLength];
+        const offset = Math.min(Math.max((point[0] - wall.start[0]) * dx + (point[1] - wall.start[1]) * dz, 0), wallLength);
+        const pointDistance = distance(point, pointAlongWall(wall, offset));
+
+        if (pointDistance <= WALL_PICK_DISTANCE && (!best || pointDistance < best.distance)) {
+            best = { wall, offset, distance: pointDistance };
+        }
+    }
+
+    return best;
+};
+
+export const createOpening = (type: OpeningType, floor: number, wall: Wall, centerOffset: number): Opening => {
+    const defaults = OPENING_DEFAULTS[type];
+    const wallLength = getWallLength(wall);
+    const openingWidth = Math.min(defaults.width, wallLength);
+
+    return {
+        id: crypto.randomUUID(),
+        type,
+        floor,
+        wall: wall.ref,
+        offset: Math.min(Math.max(centerOffset - openingWidth / 2, 0), wallLength - openingWidth),
+        ...defaults,
+        width: openingWidth,
+    };
+};
+
+export const validateOpenings = (
+    openings: Opening[],
+    rooms: Room[],
+    width: number,
+    length: number,
+    floorHeight: number
+): OpeningIssue[] => {
+    const issues: OpeningIssue[] = [];
+
+    openings.forEach((opening, index) => {
+        const label = opening.type === 'door' ? 'Door' : 'Window';
+        const wall = findWall(opening.wall, opening.floor, rooms, width, length);
+        const issue = (message: string) => issues.push({ openingId: opening.id, message: `${label}: ${message}` });
+
+        if (!wall) {
+            issue('its wall no longer exists');
+            return;
+        }
+        if (opening.width <= 0 || opening.height <= 0) {
+            issue('width and height must be greater than 0');
+        }
+        if (opening.sillHeight < 0) {
+            issue('sill height cannot be negative');
+        }
+        if (opening.offset < 0 || opening.offset + opening.width > getWallLength(wall) + 1e-6) {
+            issue(`does not fit on the ${getWallLength(wall).toFixed(2)}m wall`);
+        }
+        if (opening.sillHeight + opening.height > floorHeight + 1e-6) {
+            issue(`is taller than the ${floorHeight.toFixed(2)}m floor height`);
+        }
+
+        openings.slice(index + 1)
+            .filter((other) => other.floor === opening.floor && isSameWall(other.wall, opening.wall))
+            .filter((other) => other.offset < opening.offset + opening.width && opening.offset < other.offset + other.width)
+            .forEach(() => issue('overlaps another opening on the same wall'));
+    });
+
+    return issues;
+};
+
+// Splits a wall into solid panels around its openings
+export const getWallPanels = (wallLength: number, wallHeight: number, openings: Opening[]): WallPanel[] => {
+    const panels: WallPanel[] = [];
+    let u = 0;
+
+    [...openings]
+        .sort((a, b) => a.offset - b.offset)
+        .forEach((opening) => {
+            const u0 = Math.max(opening.offset, u);
+            const u1 = Math.min(opening.offset + opening.width, wallLength);
+            if (u1 <= u0) return;
+
+            if (u0 > u) {
+                panels.push({ u0: u, u1: u0, v0: 0, v1: wallHeight });
+            }
+            if (opening.sillHeight > 0) {
+                panels.push({ u0, u1, v0: 0, v1: Math.min(opening.sillHeight, wallHeight) });
+            }
+            if (opening.sillHeight + opening.height < wallHeight) {
+                panels.push({ u0, u1, v0: opening.sillHeight + opening.height, v1: wallHeight });
+            }
+            u = u1;
+        });
+
+    if (u < wallLength) {
+        panels.push({ u0: u, u1: wallLength, v0: 0, v1: wallHeight });
+    }
+    return panels;
+};
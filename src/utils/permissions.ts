@@ -0,0 +1,21 @@
+import { House } from '../types/house';
+import { HouseRole, InvitedRole } from '../types/sharing';
+
+export const ROLE_LABELS: Record<HouseRole, string> = {
+    owner: 'Owner',
+    editor: 'Editor',
+    viewer: 'Viewer',
+};
+
+export const INVITED_ROLES: { value: InvitedRole; label: string; description: string }[] = [
+    { value: 'editor', label: ROLE_LABELS.editor, description: 'Can change the house and its design' },
+    { value: 'viewer', label: ROLE_LABELS.viewer, description: 'Can look at the house, e.g. a client' },
+];
+
+export const getRole = (house: House): HouseRole => house.role ?? 'owner';
+
+// The API enforces the same rules; these only decide which controls to show
+export const canEdit = (house: House) => getRole(house) !== 'viewer';
+
+// Deleting the house and sharing it
+export const canManage = (house: House) => getRole(house) === 'owner';
@@ -0,0 +1,18 @@
+// Distinct on the white page and on the grey model
+const COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+// The same collaborator keeps the same color in every tab
+export const getCollaboratorColor = (clientId: string) => {
+    let hash = 0;
+    for (const char of clientId) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    return COLORS[Math.abs(hash) % COLORS.length];
+};
+
+// "jane.doe@example.com" -> "JD"
+export const getInitials = (email: string) => {
+    const parts = email.split('@')[0].split(/[._-]+/).filter(Boolean);
+    const initials = parts.length > 1 ? parts[0][0] + parts[1][0] : (parts[0] ?? email).slice(0, 2);
+    return initials.toUpperCase();
+};
@@ -0,0 +1,138 @@
+import { EstimateSettings, HouseDesign, Opening, Point, SurfaceKind } from '../types/design';
+import { distance } from './geometry';
+import { getRoomWalls } from './rooms';
+
+export interface PricedMaterial {
+    id: string;
+    name: string;
+    surface: SurfaceKind;
+    unitPrice: number;   // Default price per square meter, in euros
+    wasteFactor: number; // Extra material for cuts and breakage, e.g. 0.1 for 10%
+}
+
+export interface HouseGeometry {
+    perimeter: number;
+    floorArea: number;
+    wallArea: number;    // Inner faces of the exterior walls plus every room's own walls, openings removed
+    ceilingArea: number;
+}
+
+export interface EstimateLine {
+    surface: SurfaceKind;
+    material: PricedMaterial;
+    area: number;
+    quantity: number; // Area including waste
+    unitPrice: number;
+    total: number;
+}
+
+export interface Estimate {
+    lines: EstimateLine[];
+    subtotals: Record<SurfaceKind, number>;
+    total: number;
+    currency: string;
+}
+
+interface HouseDimensions {
+    width: number;
+    length: number;
+    height: number;
+    floors: number;
+}
+
+export const SURFACES: { value: SurfaceKind; label: string }[] = [
+    { value: 'floor', label: 'Floors' },
+    { value: 'wall', label: 'Walls' },
+    { value: 'ceiling', label: 'Ceilings' },
+];
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'MAD'];
+
+export const PRICED_MATERIALS: PricedMaterial[] = [
+    { id: 'oak-parquet', name: 'Oak parquet', surface: 'floor', unitPrice: 65, wasteFactor: 0.1 },
+    { id: 'laminate', name: 'Laminate', surface: 'floor', unitPrice: 25, wasteFactor: 0.08 },
+    { id: 'ceramic-tile', name: 'Ceramic tile', surface: 'floor', unitPrice: 40, wasteFactor: 0.12 },
+    { id: 'polished-concrete', name: 'Polished concrete', surface: 'floor', unitPrice: 55, wasteFactor: 0.02 },
+    { id: 'carpet', name: 'Carpet', surface: 'floor', unitPrice: 30, wasteFactor: 0.1 },
+    { id: 'paint', name: 'Paint, two coats', surface: 'wall', unitPrice: 12, wasteFactor: 0.05 },
+    { id: 'wallpaper', name: 'Wallpaper', surface: 'wall', unitPrice: 18, wasteFactor: 0.15 },
+    { id: 'wall-tile', name: 'Wall tile', surface: 'wall', unitPrice: 45, wasteFactor: 0.12 },
+    { id: 'wood-panelling', name: 'Wood panelling', surface: 'wall', unitPrice: 70, wasteFactor: 0.1 },
+    { id: 'ceiling-paint', name: 'Ceiling paint', surface: 'ceiling', unitPrice: 10, wasteFactor: 0.05 },
+    { id: 'plasterboard', name: 'Suspended plasterboard', surface: 'ceiling', unitPrice: 35, wasteFactor: 0.08 },
+    { id: 'acoustic-tile', name: 'Acoustic tiles', surface: 'ceiling', unitPrice: 42, wasteFactor: 0.1 },
+];
+
+export const getDefaultEstimateSettings = (): EstimateSettings => ({
+    currency: 'EUR',
+    selections: {
+        floor: { materialId: 'laminate', unitPrice: 25 },
+        wall: { materialId: 'paint', unitPrice: 12 },
+        ceiling: { materialId: 'ceiling-paint', unitPrice: 10 },
+    },
+});
+
+// Room walls drawn along the house outline are already counted as exterior walls
+const isOnOutline = ([x1, z1]: Point, [x2, z2]: Point, width: number, length: number) =>
+    (x1 === x2 && (x1 === 0 || x1 === width)) || (z1 === z2 && (z1 === 0 || z1 === length));
+
+const openingArea = (openings: Opening[]) =>
+    openings.reduce((area, opening) => area + opening.width * opening.height, 0);
+
+export const computeHouseGeometry = (
+    { width, length, height, floors }: HouseDimensions,
+    design?: Pick<HouseDesign, 'rooms' | 'openings'>
+): HouseGeometry => {
+    const floorCount = Math.max(1, Math.floor(floors) || 1);
+    const floorHeight = height / floorCount;
+    const perimeter = 2 * (width + length);
+    const floorArea = width * length * floorCount;
+
+    const interiorWallLength = (design?.rooms ?? [])
+        .flatMap(getRoomWalls)
+        .filter(([start, end]) => !isOnOutline(start, end, width, length))
+        .reduce((total, [start, end]) => total + distance(start, end), 0);
+
+    // A wall shared by two rooms is counted once per room, one for each face to finish
+    const grossWallArea = perimeter * height + interiorWallLength * floorHeight;
+
+    return {
+        perimeter,
+        floorArea,
+        wallArea: Math.max(0, grossWallArea - openingArea(design?.openings ?? [])),
+        ceilingArea: floorArea,
+    };
+};
+
+const SURFACE_AREA: Record<SurfaceKind, keyof HouseGeometry> = {
+    floor: 'floorArea',
+    wall: 'wallArea',
+    ceiling: 'ceilingArea',
+};
+
+export const estimateCost = (geometry: HouseGeometry, settings: EstimateSettings): Estimate => {
+    const lines = SURFACES.flatMap(({ value: surface }): EstimateLine[] => {
+        const selection = settings.selections[surface];
+        const material = PRICED_MATERIALS.find((item) => item.id === selection?.materialId);
+        if (!material) return [];
+
+        const area = geometry[SURFACE_AREA[surface]];
+        const quantity = area * (1 + material.wasteFactor);
+        return [{ surface, material, area, quantity, unitPrice: selection.unitPrice, total: quantity * selection.unitPrice }];
+    });
+
+    const subtotals = { floor: 0, wall: 0, ceiling: 0 };
+    lines.forEach((line) => {
+        subtotals[line.surface] += line.total;
+    });
+
+    return {
+        lines,
+        subtotals,
+        total: lines.reduce((total, line) => total + line.total, 0),
+        currency: settings.currency,
+    };
+};
+
+export const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
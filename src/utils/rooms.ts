@@ -0,0 +1,75 @@
+import { Point, Room } from '../types/design';
+import { isSelfIntersecting, polygonArea, polygonsOverlap } from './geometry';
+
+export const GRID_SIZE = 0.5;
+export const OUTLINE_SNAP_DISTANCE = 0.25;
+export const MIN_ROOM_AREA = 1;
+
+export interface RoomIssue {
+    roomIds: string[];
+    message: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Snap to the house outline when close to it, otherwise to the grid, and keep the point inside the footprint
+export const snapPoint = ([x, z]: Point, width: number, length: number, gridSize = GRID_SIZE): Point => {
+    const snapAxis = (value: number, max: number) => {
+        if (Math.abs(value) <= OUTLINE_SNAP_DISTANCE) return 0;
+        if (Math.abs(max - value) <= OUTLINE_SNAP_DISTANCE) return max;
+        return clamp(Math.round(value / gridSize) * gridSize, 0, max);
+    };
+    return [snapAxis(x, width), snapAxis(z, length)];
+};
+
+export const rectanglePoints = ([x1, z1]: Point, [x2, z2]: Point): Point[] => [
+    [Math.min(x1, x2), Math.min(z1, z2)],
+    [Math.max(x1, x2), Math.min(z1, z2)],
+    [Math.max(x1, x2), Math.max(z1, z2)],
+    [Math.min(x1, x2), Math.max(z1, z2)],
+];
+
+export const createRoom = (floor: number, points: Point[], existingRooms: Room[]): Room => ({
+    id: crypto.randomUUID(),
+    name: `Room ${existingRooms.filter((room) => room.floor === floor).length + 1}`,
+    floor,
+    points,
+});
+
+export const isInsideFootprint = (points: Point[], width: number, length: number) =>
+    points.every(([x, z]) => x >= 0 && x <= width && z >= 0 && z <= length);
+
+export const validateRooms = (rooms: Room[], width: number, length: number): RoomIssue[] => {
+    const issues: RoomIssue[] = [];
+
+    rooms.forEach((room, index) => {
+        if (!room.name.trim()) {
+            issues.push({ roomIds: [room.id], message: 'Room name is required' });
+        }
+        if (room.points.length < 3 || polygonArea(room.points) < MIN_ROOM_AREA) {
+            issues.push({ roomIds: [room.id], message: `${room.name || 'Room'} must be at least ${MIN_ROOM_AREA}m²` });
+        }
+        if (isSelfIntersecting(room.points)) {
+            issues.push({ roomIds: [room.id], message: `${room.name || 'Room'} has crossing walls` });
+        }
+        // The footprint is a rectangle, so every corner being inside (or on the outline) is enough
+        if (!isInsideFootprint(room.points, width, length)) {
+            issues.push({ roomIds: [room.id], message: `${room.name || 'Room'} is outside the house footprint` });
+        }
+
+        rooms.slice(index + 1)
+            .filter((other) => other.floor === room.floor && polygonsOverlap(room.points, other.points))
+            .forEach((other) => {
+                issues.push({
+                    roomIds: [room.id, other.id],
+                    message: `${room.name || 'Room'} overlaps ${other.name || 'another room'}`,
+                });
+            });
+    });
+
+    return issues;
+};
+
+// Walls of a room as [start, end] segments, one per polygon edge
+export const getRoomWalls = (room: Room): [Point, Point][] =>
+    room.points.map((point, i) => [point, room.points[(i + 1) % room.points.length]]);
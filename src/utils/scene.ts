@@ -0,0 +1,6 @@
+import { Point } from '../types/design';
+
+// Plan coordinates start at the house's corner while the 3D scene is centered on the footprint
+export const toSceneXZ = ([x, z]: Point, width: number, length: number): Point => [x - width / 2, z - length / 2];
+
+export const fromSceneXZ = ([x, z]: Point, width: number, length: number): Point => [x + width / 2, z + length / 2];
@@ -0,0 +1,134 @@
+import { ExteriorSide, FurnitureItem, Opening, OpeningType, Point, Room } from '../types/design';
+import { HouseTemplate } from '../types/template';
+import { FURNITURE_CATALOG } from './furniture';
+import { OPENING_DEFAULTS } from './openings';
+
+const rectRoom = (id: string, name: string, floor: number, [x0, z0]: Point, [x1, z1]: Point): Room => ({
+    id,
+    name,
+    floor,
+    points: [[x0, z0], [x1, z0], [x1, z1], [x0, z1]],
+});
+
+const exteriorOpening = (id: string, type: OpeningType, floor: number, side: ExteriorSide, offset: number): Opening => ({
+    id,
+    type,
+    floor,
+    wall: { kind: 'exterior', side },
+    offset,
+    ...OPENING_DEFAULTS[type],
+});
+
+const piece = (id: string, type: string, floor: number, position: Point, rotation = 0): FurnitureItem => {
+    const { name, width, depth, height, color } = FURNITURE_CATALOG.find((item) => item.type === type)!;
+    return { id, type, name, floor, position, rotation, width, depth, height, color };
+};
+
+// The gallery new houses can start from. Ids only need to be unique within a design,
+// so the templates use readable ones.
+export const BUILT_IN_TEMPLATES: HouseTemplate[] = [
+    {
+        id: 'studio',
+        name: 'Studio',
+        description: 'One open room with a kitchenette and a bathroom',
+        house: { width: 6, length: 8, height: 2.8, floors: 1 },
+        design: {
+            rooms: [
+                rectRoom('living', 'Living area', 0, [0, 0], [6, 5.5]),
+                rectRoom('bathroom', 'Bathroom', 0, [0, 5.5], [2.5, 8]),
+                rectRoom('kitchen', 'Kitchenette', 0, [2.5, 5.5], [6, 8]),
+            ],
+            openings: [
+                exteriorOpening('entrance', 'door', 0, 'south', 1),
+                exteriorOpening('window-1', 'window', 0, 'north', 1),
+                exteriorOpening('window-2', 'window', 0, 'north', 3.8),
+            ],
+            furniture: [
+                piece('sofa', 'sofa', 0, [4, 1]),
+                piece('coffee-table', 'coffee-table', 0, [4, 2.1]),
+                piece('bed', 'bed', 0, [1.2, 3.2]),
+                piece('table', 'table', 0, [4.2, 4.3]),
+            ],
+            estimate: null,
+            surfaceMaterials: {
+                'floor-0': 'wood-oak',
+            },
+        },
+    },
+    {
+        id: 'two-bedroom-flat',
+        name: 'Two-bedroom flat',
+        description: 'Living room, kitchen, bathroom and two bedrooms on one level',
+        house: { width: 9, length: 11, height: 2.7, floors: 1 },
+        design: {
+            rooms: [
+                rectRoom('living', 'Living room', 0, [0, 0], [5, 6]),
+                rectRoom('kitchen', 'Kitchen', 0, [5, 0], [9, 4]),
+                rectRoom('bathroom', 'Bathroom', 0, [5, 4], [9, 6]),
+                rectRoom('bedroom-1', 'Bedroom 1', 0, [0, 6], [4.5, 11]),
+                rectRoom('bedroom-2', 'Bedroom 2', 0, [4.5, 6], [9, 11]),
+            ],
+            openings: [
+                exteriorOpening('entrance', 'door', 0, 'west', 8),
+                exteriorOpening('living-window', 'window', 0, 'north', 1.5),
+                exteriorOpening('kitchen-window', 'window', 0, 'north', 6.5),
+                exteriorOpening('bedroom-2-window', 'window', 0, 'south', 1.8),
+                exteriorOpening('bedroom-1-window', 'window', 0, 'south', 6),
+            ],
+            furniture: [
+                piece('sofa', 'sofa', 0, [2.5, 1]),
+                piece('coffee-table', 'coffee-table', 0, [2.5, 2.2]),
+                piece('table', 'table', 0, [7, 2]),
+                piece('bed', 'bed', 0, [2.25, 9.4]),
+                piece('wardrobe', 'wardrobe', 0, [2.25, 6.4]),
+                piece('single-bed', 'single-bed', 0, [6, 9.5]),
+                piece('desk', 'desk', 0, [7.8, 7], Math.PI / 2),
+            ],
+            estimate: null,
+            surfaceMaterials: {
+                'floor-0': 'wood-birch',
+            },
+        },
+    },
+    {
+        id: 'townhouse',
+        name: 'Townhouse',
+        description: 'Three narrow floors: living and kitchen, bedroom and study, then a loft',
+        house: { width: 6, length: 10, height: 8.4, floors: 3 },
+        design: {
+            rooms: [
+                rectRoom('living', 'Living room', 0, [0, 0], [6, 6]),
+                rectRoom('kitchen', 'Kitchen', 0, [0, 6], [6, 10]),
+                rectRoom('bedroom', 'Bedroom', 1, [0, 0], [6, 5.5]),
+                rectRoom('bathroom', 'Bathroom', 1, [0, 5.5], [3, 10]),
+                rectRoom('study', 'Study', 1, [3, 5.5], [6, 10]),
+                rectRoom('loft', 'Loft', 2, [0, 0], [6, 10]),
+            ],
+            openings: [
+                exteriorOpening('entrance', 'door', 0, 'north', 2.5),
+                exteriorOpening('living-window', 'window', 0, 'north', 4),
+                exteriorOpening('kitchen-window', 'window', 0, 'south', 2.4),
+                exteriorOpening('bedroom-window', 'window', 1, 'north', 2.4),
+                exteriorOpening('study-window', 'window', 1, 'south', 1),
+                exteriorOpening('loft-window-1', 'window', 2, 'north', 2.4),
+                exteriorOpening('loft-window-2', 'window', 2, 'south', 2.4),
+            ],
+            furniture: [
+                piece('sofa', 'sofa', 0, [3, 4.5]),
+                piece('coffee-table', 'coffee-table', 0, [3, 3.4]),
+                piece('table', 'table', 0, [3, 8]),
+                piece('bed', 'bed', 1, [3, 2.5]),
+                piece('wardrobe', 'wardrobe', 1, [1.2, 0.4]),
+                piece('desk', 'desk', 1, [4.5, 9.5]),
+                piece('bookcase', 'bookcase', 2, [3, 9.7]),
+                piece('armchair', 'armchair', 2, [1.5, 2]),
+            ],
+            estimate: null,
+            surfaceMaterials: {
+                'floor-0': 'tile-slate',
+                'floor-1': 'carpet-beige',
+                'floor-2': 'wood-walnut',
+            },
+        },
+    },
+];
@@ -0,0 +1,139 @@
+import { CanvasTexture, RepeatWrapping, SRGBColorSpace, Texture } from 'three';
+import { LibraryMaterial } from './materials';
+
+const TEXTURE_SIZE = 256;
+
+// Textures are drawn once per material and shared; meshes only clone them to set their own tiling
+const baseTextures = new Map<string, CanvasTexture>();
+
+// Small seeded generator so a material looks the same on every load
+const createRandom = (seed: string) => {
+    let state = [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) | 0, 7);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const shade = (color: string, amount: number) => {
+    const value = parseInt(color.slice(1), 16);
+    const channel = (shift: number) => Math.min(255, Math.max(0, ((value >> shift) & 0xff) + Math.round(amount * 255)));
+    return `rgb(${channel(16)}, ${channel(8)}, ${channel(0)})`;
+};
+
+const speckle = (ctx: CanvasRenderingContext2D, color: string, random: () => number, count: number, size: number, strength: number) => {
+    for (let i = 0; i < count; i++) {
+        ctx.fillStyle = shade(color, (random() - 0.5) * strength);
+        ctx.fillRect(random() * TEXTURE_SIZE, random() * TEXTURE_SIZE, size, size);
+    }
+};
+
+const drawWood = (ctx: CanvasRenderingContext2D, color: string, random: () => number) => {
+    const planks = 4;
+    const plankHeight = TEXTURE_SIZE / planks;
+    for (let row = 0; row < planks; row++) {
+        const y = row * plankHeight;
+        ctx.fillStyle = shade(color, (random() - 0.5) * 0.12);
+        ctx.fillRect(0, y, TEXTURE_SIZE, plankHeight);
+
+        // Grain running along the plank
+        for (let line = 0; line < 14; line++) {
+            ctx.strokeStyle = shade(color, -0.04 - random() * 0.08);
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            const lineY = y + random() * plankHeight;
+            ctx.moveTo(0, lineY);
+            ctx.bezierCurveTo(TEXTURE_SIZE / 3, lineY + random() * 4 - 2, (2 * TEXTURE_SIZE) / 3, lineY + random() * 4 - 2, TEXTURE_SIZE, lineY);
+            ctx.stroke();
+        }
+
+        // Joints, staggered from one row to the next
+        ctx.fillStyle = shade(color, -0.25);
+        ctx.fillRect(0, y, TEXTURE_SIZE, 1);
+        ctx.fillRect(((row % 2) * TEXTURE_SIZE) / 2 + random() * 20, y, 2, plankHeight);
+    }
+};
+
+const drawTile = (ctx: CanvasRenderingContext2D, color: string, random: () => number) => {
+    const tiles = 2;
+    const tileSize = TEXTURE_SIZE / tiles;
+    for (let row = 0; row < tiles; row++) {
+        for (let column = 0; column < tiles; column++) {
+            ctx.fillStyle = shade(color, (random() - 0.5) * 0.06);
+            ctx.fillRect(column * tileSize, row * tileSize, tileSize, tileSize);
+        }
+    }
+    speckle(ctx, color, random, 400, 1, 0.06);
+
+    // Grout lines, drawn on both edges so neighbouring repeats line up
+    ctx.fillStyle = shade(color, -0.3);
+    for (let i = 0; i <= tiles; i++) {
+        ctx.fillRect(i * tileSize - 2, 0, 4, TEXTURE_SIZE);
+        ctx.fillRect(0, i * tileSize - 2, TEXTURE_SIZE, 4);
+    }
+};
+
+const drawMaterial = (material: LibraryMaterial) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_SIZE;
+    canvas.height = TEXTURE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    const random = createRandom(material.id);
+    ctx.fillStyle = material.color;
+    ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+
+    switch (material.category) {
+        case 'wood':
+            drawWood(ctx, material.color, random);
+            break;
+        case 'tile':
+            drawTile(ctx, material.color, random);
+            break;
+        case 'concrete':
+            speckle(ctx, material.color, random, 3000, 2, 0.12);
+            break;
+        case 'carpet':
+            speckle(ctx, material.color, random, 12000, 1, 0.2);
+            break;
+        case 'paint':
+            break;
+    }
+    return canvas;
+};
+
+const getBaseTexture = (material: LibraryMaterial) => {
+    let texture = baseTextures.get(material.id);
+    if (!texture) {
+        texture = new CanvasTexture(drawMaterial(material));
+        texture.colorSpace = SRGBColorSpace;
+        texture.wrapS = RepeatWrapping;
+        texture.wrapT = RepeatWrapping;
+        baseTextures.set(material.id, texture);
+    }
+    return texture;
+};
+
+// Texture covering a surface of the given size in meters, tiled at the material's real scale.
+// The origin shifts the pattern so pieces of one wall, e.g. around a window, line up.
+// Paint has no texture, its color is enough. The caller owns the texture and disposes it.
+export const createSurfaceTexture = (
+    material: LibraryMaterial,
+    width: number,
+    height: number,
+    originX = 0,
+    originY = 0
+): Texture | null => {
+    if (material.category === 'paint') return null;
+
+    const texture = getBaseTexture(material).clone();
+    texture.repeat.set(width / material.tileSize, height / material.tileSize);
+    texture.offset.set(originX / material.tileSize, originY / material.tileSize);
+    return texture;
+};
+
+// Swatch shown in the material picker
+export const getMaterialPreview = (material: LibraryMaterial) => (getBaseTexture(material).image as HTMLCanvasElement).toDataURL();
@@ -0,0 +1,21 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+const FEET_PER_METER = 3.28084;
+const SQUARE_FEET_PER_SQUARE_METER = FEET_PER_METER * FEET_PER_METER;
+
+// 3.25 m, or 10' 8" in imperial
+export const formatLength = (meters: number, system: UnitSystem) => {
+    if (system === 'metric') {
+        return `${meters.toFixed(2)} m`;
+    }
+
+    const totalInches = Math.round(meters * FEET_PER_METER * 12);
+    const feet = Math.floor(totalInches / 12);
+    const inches = totalInches % 12;
+    return inches === 0 ? `${feet}'` : `${feet}' ${inches}"`;
+};
+
+export const formatArea = (squareMeters: number, system: UnitSystem) =>
+    system === 'metric'
+        ? `${squareMeters.toFixed(1)} m²`
+        : `${(squareMeters * SQUARE_FEET_PER_SQUARE_METER).toFixed(0)} ft²`;
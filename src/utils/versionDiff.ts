@@ -0,0 +1,83 @@
+import { DesignCollection, DesignCollections } from '../types/collaboration';
+import { HouseInput } from '../types/house';
+import { VersionSide } from '../types/version';
+import { diffDesign } from './designOps';
+import { getFloorLabel } from './floors';
+
+export interface FieldChange {
+    label: string;
+    before: string | number;
+    after: string | number;
+}
+
+export interface EntryChange {
+    id: string;
+    kind: 'added' | 'removed' | 'changed';
+    label: string;
+}
+
+// What changed from one version of a house to another, in words
+export interface VersionDiff {
+    dimensions: FieldChange[];
+    rooms: EntryChange[];
+    furniture: EntryChange[];
+    openings: EntryChange[];
+    materials: number; // Surfaces given another material
+    estimate: boolean;
+}
+
+const FIELDS: { key: keyof HouseInput; label: string; unit: string }[] = [
+    { key: 'name', label: 'Name', unit: '' },
+    { key: 'width', label: 'Width', unit: 'm' },
+    { key: 'length', label: 'Length', unit: 'm' },
+    { key: 'height', label: 'Height', unit: 'm' },
+    { key: 'floors', label: 'Floors', unit: '' },
+];
+
+const describeEntry = (item: DesignCollections[DesignCollection]) => {
+    const floor = getFloorLabel(item.floor);
+    if ('name' in item) return `${item.name} (${floor})`;
+    return `${item.type === 'door' ? 'Door' : 'Window'} (${floor})`;
+};
+
+export const diffVersions = (before: VersionSide, after: VersionSide): VersionDiff => {
+    const diff: VersionDiff = {
+        dimensions: FIELDS
+            .filter(({ key }) => before.house[key] !== after.house[key])
+            .map(({ key, label, unit }) => ({ label, before: `${before.house[key]}${unit}`, after: `${after.house[key]}${unit}` })),
+        rooms: [],
+        furniture: [],
+        openings: [],
+        materials: 0,
+        estimate: false,
+    };
+
+    diffDesign(before.design, after.design).forEach((change) => {
+        switch (change.kind) {
+            case 'put': {
+                const existed = (before.design[change.collection] as { id: string }[]).some((item) => item.id === change.item.id);
+                diff[change.collection].push({
+                    id: change.item.id,
+                    kind: existed ? 'changed' : 'added',
+                    label: describeEntry(change.item),
+                });
+                break;
+            }
+            case 'remove': {
+                const item = (before.design[change.collection] as DesignCollections[DesignCollection][]).find((entry) => entry.id === change.id);
+                if (item) diff[change.collection].push({ id: change.id, kind: 'removed', label: describeEntry(item) });
+                break;
+            }
+            case 'setMaterial':
+                diff.materials += 1;
+                break;
+            case 'setEstimate':
+                diff.estimate = true;
+                break;
+        }
+    });
+    return diff;
+};
+
+export const isEmptyDiff = (diff: VersionDiff) =>
+    diff.dimensions.length + diff.rooms.length + diff.furniture.length + diff.openings.length + diff.materials === 0 && !diff.estimate;